@@ -1,8 +1,15 @@
 // Simple build script using esbuild to produce browser-friendly JS bundles
-// - dist/wave-effect.js (IIFE, minified, global name WaveEffect) -> for script tag inclusion
-// - dist/wave-effect.esm.js (ESM) -> for module imports
+// - dist/wave-effect.js (IIFE, minified, sets window.WaveEffect and auto-starts) -> for script tag inclusion
+// - dist/wave-effect.esm.js (ESM, no side effects, named exports) -> for module imports and SSR
+// - dist/wave-effect.cjs, dist/{react,vue,svelte}.cjs (CommonJS, no side effects) -> require() in Node, SSR and jest
+// - dist/wave-effect.bundled.js (IIFE, minified, stylesheet built in) -> script tag without any CSS request
+// - dist/wave-effect.dev.js (IIFE, unminified, console warnings for bad wave attributes) -> for development
+// - dist/styles.esm.js (ESM, the stylesheet as a string) -> init({ styles }) for module users
+// - dist/react.esm.js, dist/vue.esm.js, dist/svelte.esm.js (ESM) -> framework adapters on top of wave-effect.esm.js
+// - dist/types/**/*.d.ts -> declarations for the core, the adapters and the styles entry (see tsconfig.json)
 // Also copies CSS + index.html demo into dist for quick preview/deploy.
 const esbuild = require('esbuild');
+const { execFileSync } = require('child_process');
 const fs = require('fs');
 const path = require('path');
 
@@ -17,6 +24,55 @@ function ensureDir(dir) {
 
 ensureDir(outDir);
 
+// __WAVE_DEV__ gates the development-only diagnostics in the source
+const prodDefine = { __WAVE_DEV__: 'false' };
+const devDefine = { __WAVE_DEV__: 'true' };
+
+// Stylesheets imported from the source are minified and inlined as strings
+const cssText = {
+  name: 'css-text',
+  setup(b) {
+    b.onLoad({ filter: /\.css$/ }, async args => {
+      const css = await fs.promises.readFile(args.path, 'utf8');
+      const { code } = await esbuild.transform(css, { loader: 'css', minify: true });
+      return { contents: code.trim(), loader: 'text' };
+    });
+  },
+};
+
+// Adapters share the core module instead of each bundling a copy of it
+const adapters = ['react', 'vue', 'svelte'];
+function coreExternal(file) {
+  return {
+    name: 'wave-effect-core',
+    setup(b) {
+      b.onResolve({ filter: /^\.\.\/wave-effect$/ }, () => ({ path: `./${file}`, external: true }));
+    },
+  };
+}
+
+function buildAdapters(define, minify, format = 'esm') {
+  const ext = format === 'cjs' ? '.cjs' : '.esm.js';
+  return Promise.all(adapters.map(name => esbuild.build({
+    entryPoints: [`src/adapters/${name}.ts`],
+    bundle: true,
+    minify,
+    sourcemap: true,
+    format,
+    outfile: path.join(outDir, name + ext),
+    target: ['es2017'],
+    legalComments: 'none',
+    external: adapters,
+    plugins: [coreExternal('wave-effect' + ext)],
+    define,
+  })));
+}
+
+// tsconfig.json emits declarations only; a type error fails the build
+function emitDeclarations() {
+  execFileSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', 'tsconfig.json'], { stdio: 'inherit' });
+}
+
 // copy CSS and demo (if available)
 function copyAssets() {
   try {
@@ -45,17 +101,17 @@ function copyAssets() {
 async function build() {
   copyAssets();
   try {
-    // IIFE bundle for browsers - attaches to global WaveEffect
+    // IIFE bundle for browsers - src/auto.ts sets window.WaveEffect (no globalName, which would overwrite it)
     await esbuild.build({
-      entryPoints: ['src/wave-effect.ts'],
+      entryPoints: ['src/auto.ts'],
       bundle: true,
       minify: true,
       sourcemap: true,
       format: 'iife',
-      globalName: 'WaveEffect',
       outfile: path.join(outDir, 'wave-effect.js'),
       target: ['es2017'],
       legalComments: 'none',
+      define: prodDefine,
     });
     console.log('Built dist/wave-effect.js (IIFE)');
 
@@ -69,9 +125,70 @@ async function build() {
       outfile: path.join(outDir, 'wave-effect.esm.js'),
       target: ['es2017'],
       legalComments: 'none',
+      define: prodDefine,
     });
     console.log('Built dist/wave-effect.esm.js (ESM)');
 
+    // CommonJS bundle, same exports as the ESM one
+    await esbuild.build({
+      entryPoints: ['src/wave-effect.ts'],
+      bundle: true,
+      minify: true,
+      sourcemap: true,
+      format: 'cjs',
+      outfile: path.join(outDir, 'wave-effect.cjs'),
+      target: ['es2017'],
+      legalComments: 'none',
+      define: prodDefine,
+    });
+    console.log('Built dist/wave-effect.cjs (CommonJS)');
+
+    // IIFE bundle with the stylesheet built in
+    await esbuild.build({
+      entryPoints: ['src/auto-bundled.ts'],
+      bundle: true,
+      minify: true,
+      sourcemap: true,
+      format: 'iife',
+      outfile: path.join(outDir, 'wave-effect.bundled.js'),
+      target: ['es2017'],
+      legalComments: 'none',
+      plugins: [cssText],
+      define: prodDefine,
+    });
+    console.log('Built dist/wave-effect.bundled.js (IIFE, CSS included)');
+
+    await esbuild.build({
+      entryPoints: ['src/styles.ts'],
+      bundle: true,
+      minify: true,
+      format: 'esm',
+      outfile: path.join(outDir, 'styles.esm.js'),
+      target: ['es2017'],
+      plugins: [cssText],
+    });
+    console.log('Built dist/styles.esm.js (ESM, CSS text)');
+
+    await buildAdapters(prodDefine, true);
+    await buildAdapters(prodDefine, true, 'cjs');
+    console.log('Built dist/{react,vue,svelte}.{esm.js,cjs} (adapters)');
+
+    emitDeclarations();
+    console.log('Built dist/types (declarations)');
+
+    // Development IIFE bundle
+    await esbuild.build({
+      entryPoints: ['src/auto.ts'],
+      bundle: true,
+      minify: false,
+      sourcemap: true,
+      format: 'iife',
+      outfile: path.join(outDir, 'wave-effect.dev.js'),
+      target: ['es2017'],
+      define: devDefine,
+    });
+    console.log('Built dist/wave-effect.dev.js (IIFE, dev)');
+
   } catch (err) {
     console.error('Build failed', err);
     process.exit(1);
@@ -87,21 +204,23 @@ if (watch) {
     format: 'esm',
     outfile: path.join(outDir, 'wave-effect.esm.js'),
     target: ['es2017'],
+    define: devDefine,
   });
   esbuildCtx.then(ctx => {
     ctx.watch();
     console.log('esbuild watching (ESM) ...');
     // build IIFE once in watch mode as well
     esbuild.build({
-      entryPoints: ['src/wave-effect.ts'],
+      entryPoints: ['src/auto.ts'],
       bundle: true,
       minify: false,
       sourcemap: true,
       format: 'iife',
-      globalName: 'WaveEffect',
       outfile: path.join(outDir, 'wave-effect.js'),
       target: ['es2017'],
+      define: devDefine,
     }).then(() => console.log('Built IIFE (watch mode)'));
+    buildAdapters(devDefine, false).then(() => console.log('Built adapters (watch mode)'));
   }).catch(e => { console.error(e); process.exit(1); });
   // Copy assets initially
   copyAssets();
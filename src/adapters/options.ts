@@ -0,0 +1,33 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — options shared by the framework adapters
+///////////////////////////////////////////////////////////////////////////////
+import type { ElementOptions } from '../wave-effect';
+
+export type WaveVariant = 'bounded' | 'unbounded' | 'centered';
+
+export interface WaveOptions {
+  color?: string;
+  theme?: string;
+  variant?: WaveVariant;
+  disabled?: boolean;
+  radius?: number;
+  stateLayer?: boolean;
+  longPress?: number;
+  pulse?: boolean;
+}
+
+// Every key is passed on, even when undefined, so dropping an option falls back to the attribute / settings
+export function toElementOptions(options: WaveOptions = {}): ElementOptions {
+  const { variant } = options;
+  return {
+    color: options.color,
+    theme: options.theme,
+    disabled: options.disabled,
+    unbounded: variant ? variant === 'unbounded' : undefined,
+    center: variant ? variant !== 'bounded' : undefined,
+    radius: options.radius,
+    stateLayer: options.stateLayer,
+    longPress: options.longPress,
+    pulse: options.pulse
+  };
+}
@@ -0,0 +1,61 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — React hook and component
+//   useWave(ref, { theme: 'primary' })
+//   <Wave as="button" variant="unbounded">★</Wave>
+///////////////////////////////////////////////////////////////////////////////
+import { createElement, forwardRef, useCallback, useEffect, useRef } from 'react';
+import type { ElementType, HTMLAttributes, ReactNode, RefObject } from 'react';
+import { bindElement } from '../wave-effect';
+import { toElementOptions } from './options';
+import type { WaveOptions } from './options';
+
+export type { WaveOptions, WaveVariant } from './options';
+
+// Binds once per mounted element; option changes update the binding without clearing running ripples
+export function useWave<T extends HTMLElement>(ref: RefObject<T | null>, options: WaveOptions = {}): void {
+  const { color, theme, variant, disabled, radius, stateLayer, longPress, pulse } = options;
+  const latest = useRef(options);
+  latest.current = options;
+  const bound = useRef<{ el: T; unbind: () => void } | null>(null);
+
+  // checked after every commit: the ref may now point at another node, e.g. <Wave as> switching tag
+  useEffect(() => {
+    const el = ref.current;
+    if (bound.current?.el === el) return;
+    bound.current?.unbind();
+    bound.current = el ? { el, unbind: bindElement(el, toElementOptions(latest.current)) } : null;
+  });
+
+  useEffect(() => () => {
+    bound.current?.unbind();
+    bound.current = null;
+  }, []);
+
+  useEffect(() => {
+    const el = bound.current?.el;
+    if (el) bindElement(el, toElementOptions(latest.current));
+  }, [color, theme, variant, disabled, radius, stateLayer, longPress, pulse]);
+}
+
+// `disabled` also reaches the elements that have the attribute
+const DISABLEABLE = new Set(['button', 'fieldset', 'input', 'select', 'textarea']);
+
+export interface WaveProps extends WaveOptions, Omit<HTMLAttributes<HTMLElement>, 'color'> {
+  as?: ElementType;
+  children?: ReactNode;
+}
+
+export const Wave = forwardRef<HTMLElement, WaveProps>(function Wave(props, forwardedRef) {
+  const { as = 'div', color, theme, variant, disabled, radius, stateLayer, longPress, pulse, children, ...rest } = props;
+  const ref = useRef<HTMLElement | null>(null);
+  useWave(ref, { color, theme, variant, disabled, radius, stateLayer, longPress, pulse });
+
+  const setRef = useCallback((node: HTMLElement | null) => {
+    ref.current = node;
+    if (typeof forwardedRef === 'function') forwardedRef(node);
+    else if (forwardedRef) forwardedRef.current = node;
+  }, [forwardedRef]);
+
+  const native = typeof as === 'string' && DISABLEABLE.has(as) ? { disabled } : null;
+  return createElement(as, { ...rest, ...native, ref: setRef }, children);
+});
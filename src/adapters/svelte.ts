@@ -0,0 +1,19 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — Svelte action
+//   <button use:wave={{ theme: 'primary' }}>Save</button>
+///////////////////////////////////////////////////////////////////////////////
+import { bindElement } from '../wave-effect';
+import { toElementOptions } from './options';
+import type { WaveOptions } from './options';
+
+export type { WaveOptions, WaveVariant } from './options';
+
+export function wave(node: HTMLElement, options: WaveOptions = {}) {
+  const unbind = bindElement(node, toElementOptions(options));
+  return {
+    update(next: WaveOptions = {}) {
+      bindElement(node, toElementOptions(next));
+    },
+    destroy: unbind
+  };
+}
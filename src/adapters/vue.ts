@@ -0,0 +1,29 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — Vue directive
+//   app.use(WavePlugin)  ->  <button v-wave="{ theme: 'primary' }">Save</button>
+///////////////////////////////////////////////////////////////////////////////
+import type { App, Directive } from 'vue';
+import { bindElement, unbindElement } from '../wave-effect';
+import { toElementOptions } from './options';
+import type { WaveOptions } from './options';
+
+export type { WaveOptions, WaveVariant } from './options';
+
+// v-wave with no value is a plain ripple
+export const vWave: Directive<HTMLElement, WaveOptions | undefined> = {
+  mounted(el, binding) {
+    bindElement(el, toElementOptions(binding.value));
+  },
+  updated(el, binding) {
+    bindElement(el, toElementOptions(binding.value));
+  },
+  unmounted(el) {
+    unbindElement(el);
+  }
+};
+
+export const WavePlugin = {
+  install(app: App) {
+    app.directive('wave', vWave);
+  }
+};
@@ -0,0 +1,5 @@
+// Stylesheets are imported as text (esbuild "text" loader, see build.js)
+declare module '*.css' {
+  const text: string;
+  export default text;
+}
@@ -0,0 +1,7 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — script-tag entry with the stylesheet built in (no CSS request)
+///////////////////////////////////////////////////////////////////////////////
+import styles from '../assets/wave-effect.min.css';
+import { startFromScript } from './script-start';
+
+startFromScript({ styles });
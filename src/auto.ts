@@ -0,0 +1,6 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — script-tag entry (stylesheet linked from the asset base / CDN)
+///////////////////////////////////////////////////////////////////////////////
+import { startFromScript } from './script-start';
+
+startFromScript();
@@ -0,0 +1,32 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — shared start-up for the script-tag builds
+// - Exposes window.WaveEffect
+// - Reads options from the <script> tag and starts unless opted out
+///////////////////////////////////////////////////////////////////////////////
+import WaveEffect from './wave-effect';
+import type { InitOptions } from './wave-effect';
+
+// Only set while the script itself is being evaluated
+const script = typeof document !== 'undefined' ? document.currentScript as HTMLScriptElement | null : null;
+
+// Opt out of auto-start with <script data-wave-manual> or globalThis.__wave_manual__ = true
+function isManualStart(): boolean {
+  if ((globalThis as any).__wave_manual__) return true;
+  return !!script?.hasAttribute('data-wave-manual');
+}
+
+// <script data-wave-base="/static/wave/" data-wave-offline nonce="…">
+function scriptOptions(): InitOptions {
+  const options: InitOptions = {};
+  const base = script?.getAttribute('data-wave-base');
+  if (base) options.assetBase = base;
+  if (script?.hasAttribute('data-wave-offline')) options.autoLoad = false;
+  if (script?.nonce) options.nonce = script.nonce;
+  return options;
+}
+
+export function startFromScript(extra: InitOptions = {}) {
+  if (typeof window === 'undefined' || typeof document === 'undefined') return;
+  (window as any).WaveEffect = WaveEffect;
+  if (!isManualStart()) WaveEffect.init({ ...scriptOptions(), ...extra });
+}
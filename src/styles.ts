@@ -0,0 +1,9 @@
+///////////////////////////////////////////////////////////////////////////////
+// wave-effect — the core stylesheet as a string, for init({ styles })
+///////////////////////////////////////////////////////////////////////////////
+import css from '../assets/wave-effect.min.css';
+
+// typed here so the emitted declaration doesn't depend on the *.css module declaration
+const styles: string = css;
+
+export default styles;
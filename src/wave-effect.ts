@@ -13,6 +13,24 @@ interface ElData {
   gradient?: string | undefined;
   rect?: DOMRect | undefined;
   _colorStamp?: number;
+  timers?: Set<ReturnType<typeof setTimeout>>;
+  resolved?: RippleColor;
+  options?: ElementOptions;
+  stateLayer?: HTMLElement;
+  spec?: WaveSpec;
+  specSource?: string;
+}
+
+interface ElementOptions {
+  color?: string;
+  theme?: string;
+  disabled?: boolean;
+  unbounded?: boolean;
+  center?: boolean;
+  radius?: number;
+  stateLayer?: boolean;
+  longPress?: number;
+  pulse?: boolean;
 }
 
 const RIPPLE_CLASS = 'ripple';
@@ -21,37 +39,62 @@ const FALLBACK_BASE_DURATION = 400;
 const FALLBACK_FADE_DURATION = 800;
 const RIPPLE_HALO_START_DIAMETER = 18;
 const COVERAGE_EXPAND_RATIO = 0;
-const MAX_RIPPLES_PER_ELEMENT = 1;
+const MAX_RIPPLES_PER_ELEMENT = 3;
+const UNBOUNDED_CLASS = 'ripple-unbounded';
+const UNBOUNDED_RADIUS_RATIO = 0.65;
+const STATE_LAYER_CLASS = 'ripple-state-layer';
+const HOVERED_CLASS = 'ripple-hovered';
+const FOCUSED_CLASS = 'ripple-focused';
+const PRESSED_CLASS = 'ripple-pressed';
 
 const elData: WeakMap<HTMLElement, ElData> = new WeakMap();
-const activeRipples: WeakMap<HTMLElement, Set<HTMLElement>> = new WeakMap();
-const GRADIENT_TTL = 60000;
-const reWaveColor = /(?:^|\s)c\s*[=:]?\s*([#a-zA-Z0-9(),.\s]+)/i;
-const reFuncColor = /^(rgba?|hsla?)\(([^)]+)\)$/i;
+// Live ripples per element, keyed by the pointerId that owns them (negative ids: keyboard / trigger())
+const activeRipples: WeakMap<HTMLElement, Map<number, HTMLElement>> = new WeakMap();
+// Replaced at build time: false in the minified bundles, true in watch / dev builds and unbundled source
+declare const __WAVE_DEV__: boolean | undefined;
+const WAVE_DEV = typeof __WAVE_DEV__ !== 'undefined' ? !!__WAVE_DEV__ : true;
 const now = (): number => (typeof performance !== 'undefined' && (performance as any).now) ? (performance as any).now() : Date.now();
 const sqrt2 = Math.SQRT2 || Math.sqrt(2);
 
 // ============================================
 // SYSTEM COLORS
 // ============================================
-interface SystemColor {
-  name: string;
+interface ColorVariant {
   value: string;
   alpha: number;
+}
+
+// value / alpha are the light-scheme variant; dark is used when the element sits in a dark scheme
+interface SystemColor extends ColorVariant {
+  name: string;
   isDefault: boolean;
+  dark?: ColorVariant;
 }
 
+type ColorInput = string | { value: string; alpha?: number; dark?: string | { value: string; alpha?: number } };
+
 const SYSTEM_COLORS: Map<string, SystemColor> = new Map([
-  ['default', { name: 'default', value: '#10141C', alpha: 0.22, isDefault: true }],
-  ['primary', { name: 'primary', value: '#3B82F6', alpha: 0.25, isDefault: false }],
-  ['secondary', { name: 'secondary', value: '#8B5CF6', alpha: 0.25, isDefault: false }],
-  ['success', { name: 'success', value: '#10B981', alpha: 0.25, isDefault: false }],
-  ['warning', { name: 'warning', value: '#F59E0B', alpha: 0.28, isDefault: false }],
-  ['danger', { name: 'danger', value: '#EF4444', alpha: 0.28, isDefault: false }],
-  ['light', { name: 'light', value: '#F3F4F6', alpha: 0.35, isDefault: false }],
-  ['dark', { name: 'dark', value: '#111827', alpha: 0.35, isDefault: false }]
+  ['default', { name: 'default', value: '#10141C', alpha: 0.22, isDefault: true, dark: { value: '#FFFFFF', alpha: 0.2 } }],
+  ['primary', { name: 'primary', value: '#3B82F6', alpha: 0.25, isDefault: false, dark: { value: '#60A5FA', alpha: 0.28 } }],
+  ['secondary', { name: 'secondary', value: '#8B5CF6', alpha: 0.25, isDefault: false, dark: { value: '#A78BFA', alpha: 0.28 } }],
+  ['success', { name: 'success', value: '#10B981', alpha: 0.25, isDefault: false, dark: { value: '#34D399', alpha: 0.28 } }],
+  ['warning', { name: 'warning', value: '#F59E0B', alpha: 0.28, isDefault: false, dark: { value: '#FBBF24', alpha: 0.3 } }],
+  ['danger', { name: 'danger', value: '#EF4444', alpha: 0.28, isDefault: false, dark: { value: '#F87171', alpha: 0.3 } }],
+  ['light', { name: 'light', value: '#F3F4F6', alpha: 0.35, isDefault: false, dark: { value: '#F9FAFB', alpha: 0.3 } }],
+  ['dark', { name: 'dark', value: '#111827', alpha: 0.35, isDefault: false, dark: { value: '#E5E7EB', alpha: 0.3 } }]
 ]);
 
+interface RippleColor {
+  source: 'system' | 'custom' | 'css-var' | 'forced-colors';
+  value: string | SystemColor;
+  isSystem: boolean;
+}
+
+function markDefaultColor(name: string) {
+  if (!SYSTEM_COLORS.has(name)) return;
+  for (const [key, color] of SYSTEM_COLORS) color.isDefault = key === name;
+}
+
 function getDefaultSystemColor(): SystemColor {
   for (const [, color] of SYSTEM_COLORS) {
     if (color.isDefault) return color;
@@ -59,87 +102,398 @@ function getDefaultSystemColor(): SystemColor {
   return SYSTEM_COLORS.get('default')!;
 }
 
+function toSystemColor(name: string, input: ColorInput, alpha: number = 0.25): SystemColor {
+  const key = name.toLowerCase();
+  const spec = typeof input === 'string' ? { value: input, alpha } : input;
+  const dark = typeof spec.dark === 'string' ? { value: spec.dark } : spec.dark;
+  const base = spec.alpha ?? alpha;
+  return {
+    name: key,
+    value: spec.value,
+    alpha: base,
+    isDefault: SYSTEM_COLORS.get(key)?.isDefault ?? false,
+    dark: dark ? { value: dark.value, alpha: dark.alpha ?? base } : undefined
+  };
+}
+
 // ============================================
-// GRADIENT SYSTEM — Smooth Intensify to Peak
+// COLOR SCHEME
 // ============================================
-const gradientCache: Map<string, { v: string; t: number }> = new Map();
+const SCHEME_SELECTOR = '[data-theme="dark"], [data-theme="light"], .dark, .light';
+let prefersDark = false;
+
+// Nearest data-theme / .dark / .light marker wins (across shadow roots), then prefers-color-scheme
+function colorSchemeFor(el?: HTMLElement): 'light' | 'dark' {
+  let node: Element | null = el || null;
+  while (node) {
+    const marked = node.closest(SCHEME_SELECTOR);
+    if (marked) {
+      const theme = marked.getAttribute('data-theme');
+      if (theme === 'dark' || theme === 'light') return theme;
+      return marked.classList.contains('dark') ? 'dark' : 'light';
+    }
+    const root = node.getRootNode?.();
+    node = (typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot) ? root.host : null;
+  }
+  return prefersDark ? 'dark' : 'light';
+}
 
-function computeGradient(
-  colorInput: Maybe<string | SystemColor>,
-  isSystemColor: boolean = false
-): string {
-  const d = now();
-  const localTTL = PERF_LEVEL === 'low' ? GRADIENT_TTL * 4 : GRADIENT_TTL;
-  
-  let cacheKey: string;
-  let colorValue: string;
-  let baseAlpha: number;
-  
-  if (isSystemColor && typeof colorInput === 'object') {
-    const sysColor = colorInput as SystemColor;
-    cacheKey = `sys:${sysColor.name}:${PERF_LEVEL}`;
-    colorValue = sysColor.value;
-    baseAlpha = sysColor.alpha;
-  } else if (typeof colorInput === 'string') {
-    cacheKey = `custom:${colorInput}:${PERF_LEVEL}`;
-    colorValue = colorInput;
-    baseAlpha = extractAlpha(colorValue) || 0.22;
-  } else {
-    return computeGradient(getDefaultSystemColor(), true);
+function systemColorVariant(color: SystemColor, el?: HTMLElement): ColorVariant {
+  return color.dark && colorSchemeFor(el) === 'dark' ? color.dark : color;
+}
+
+function installSchemeWatcher() {
+  prefersDark = watchMedia('(prefers-color-scheme: dark)', matches => { prefersDark = matches; });
+}
+
+// ============================================
+// ACCESSIBILITY — disabled hosts, reduced motion, forced colors
+// ============================================
+const FLASH_CLASS = 'flash';
+let prefersReducedMotion = false;
+let forcedColorsActive = false;
+
+// { disabled: true }, disabled / :disabled, aria-disabled="true" or inert up the tree (across shadow roots), or a disabled fieldset
+function isWaveDisabled(el: HTMLElement): boolean {
+  if (elData.get(el)?.options?.disabled) return true;
+  if ((el as any).disabled === true) return true;
+  try { if (el.matches(':disabled')) return true; } catch (e) { }
+  let node: Element | null = el;
+  while (node) {
+    if (node.getAttribute('aria-disabled') === 'true' || node.hasAttribute('inert')) return true;
+    if (node !== el && node.localName === 'fieldset' && (node as HTMLFieldSetElement).disabled) {
+      // the fieldset's first legend stays enabled
+      const legend = node.querySelector(':scope > legend');
+      if (!legend || !legend.contains(el)) return true;
+    }
+    if (node.parentElement) { node = node.parentElement; continue; }
+    const root = node.getRootNode?.();
+    node = (typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot) ? root.host : null;
   }
-  
-  const cached = gradientCache.get(cacheKey);
-  if (cached && (d - cached.t) < localTTL) {
-    return cached.v;
+  return false;
+}
+
+// No ripple and no state layer: disabled hosts, and everything when forcedColors is "skip"
+function rippleSuppressed(el: HTMLElement): boolean {
+  return (forcedColorsActive && resolvedSettings.forcedColors === 'skip') || isWaveDisabled(el);
+}
+
+// Forced colors replace the page palette, so the ripple follows the system Highlight color
+function accessibleColor(color: RippleColor): RippleColor {
+  if (!forcedColorsActive) return color;
+  return { source: 'forced-colors', value: 'Highlight', isSystem: false };
+}
+
+function installAccessibilityWatchers() {
+  prefersReducedMotion = watchMedia('(prefers-reduced-motion: reduce)', matches => { prefersReducedMotion = matches; });
+  forcedColorsActive = watchMedia('(forced-colors: active)', matches => {
+    forcedColorsActive = matches;
+    // state layers were tinted for the old palette
+    if (hoveredEl) setState(hoveredEl, HOVERED_CLASS, !rippleSuppressed(hoveredEl));
+  });
+}
+
+// ============================================
+// GRADIENT SYSTEM — Smooth Intensify to Peak
+// ============================================
+const GRADIENT_CACHE_LIMIT = 64;
+const GRADIENT_VARS_CLASS = 'gradient-vars';
+const GRADIENT_SIMPLE_CLASS = 'gradient-simple';
+const gradientCache: Map<string, string> = new Map();
+
+// LRU: a Map iterates in insertion order, so a hit is re-inserted at the end and the first key is the oldest
+function cachedGradient(key: string): string | undefined {
+  const gradient = gradientCache.get(key);
+  if (gradient !== undefined) {
+    gradientCache.delete(key);
+    gradientCache.set(key, gradient);
   }
-  
-  const gradient = buildGradientString(colorValue, baseAlpha);
-  gradientCache.set(cacheKey, { v: gradient, t: d });
   return gradient;
 }
 
-function extractAlpha(colorValue: string): number | null {
-  const funcMatch = reFuncColor.exec(colorValue.replace(/\s+/g, ''));
-  if (funcMatch) {
-    const parts = funcMatch[2].split(',');
-    if (parts[3] !== undefined) return parseFloat(parts[3]);
+function cacheGradient(key: string, gradient: string) {
+  gradientCache.set(key, gradient);
+  if (gradientCache.size > GRADIENT_CACHE_LIMIT) gradientCache.delete(gradientCache.keys().next().value as string);
+}
+
+// Resolved channels plus the alpha the ripple should peak at (wave="opacity=…", else system alpha, color alpha or 0.22)
+function resolveRippleChannels(
+  colorInput: Maybe<string | SystemColor>,
+  isSystemColor: boolean,
+  el?: HTMLElement
+): { rgba: RGBA | null; alpha: number } {
+  const channels = resolveChannels(colorInput, isSystemColor, el);
+  const opacity = el ? waveSpec(el).opacity : undefined;
+  return opacity === undefined ? channels : { rgba: channels.rgba, alpha: opacity };
+}
+
+function resolveChannels(
+  colorInput: Maybe<string | SystemColor>,
+  isSystemColor: boolean,
+  el?: HTMLElement
+): { rgba: RGBA | null; alpha: number } {
+  if (isSystemColor && typeof colorInput === 'object' && colorInput) {
+    const variant = systemColorVariant(colorInput as SystemColor, el);
+    return { rgba: resolveColor(variant.value, el), alpha: variant.alpha };
   }
-  return null;
+  if (typeof colorInput === 'string') {
+    const rgba = resolveColor(colorInput, el);
+    return { rgba, alpha: rgba?.a ?? 0.22 };
+  }
+  return resolveChannels(getDefaultSystemColor(), true, el);
 }
 
-function buildGradientString(colorValue: string, baseAlpha: number): string {
-  const rgb = extractRGB(colorValue);
-  if (!rgb) {
+function computeGradient(
+  colorInput: Maybe<string | SystemColor>,
+  isSystemColor: boolean = false,
+  el?: HTMLElement
+): string {
+  const { rgba, alpha: baseAlpha } = resolveRippleChannels(colorInput, isSystemColor, el);
+  if (!rgba) {
     return buildSimpleGradient(128, 128, 128, baseAlpha);
   }
   
-  const [r, g, b] = rgb;
+  // keyed by the resolved color, so var()/currentColor values that resolve alike share an entry
+  const cacheKey = `${rgba.r},${rgba.g},${rgba.b},${baseAlpha}:${perfLevel()}`;
+  const cached = cachedGradient(cacheKey);
+  if (cached !== undefined) return cached;
   
-  if (PERF_LEVEL === 'low') {
+  const gradient = buildGradientString(rgba.r, rgba.g, rgba.b, baseAlpha);
+  cacheGradient(cacheKey, gradient);
+  return gradient;
+}
+
+// gradient: "vars" — the gradient itself lives in the stylesheet (.ripple.gradient-vars); a ripple only carries its color
+function gradientVars(
+  colorInput: Maybe<string | SystemColor>,
+  isSystemColor: boolean,
+  el?: HTMLElement
+): string {
+  const { rgba, alpha } = resolveRippleChannels(colorInput, isSystemColor, el);
+  const rgb = rgba ? `${rgba.r},${rgba.g},${rgba.b}` : '128,128,128';
+  return `--ripple-rgb:${rgb};--ripple-alpha:${alpha.toFixed(3)};`;
+}
+
+function buildGradientString(r: number, g: number, b: number, baseAlpha: number): string {
+  if (perfLevel() === 'low') {
     return buildSimpleGradient(r, g, b, baseAlpha);
   } else {
     return buildSmoothGradient(r, g, b, baseAlpha);
   }
 }
 
-function extractRGB(colorValue: string): [number, number, number] | null {
-  const hexMatch = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.exec(colorValue);
+// ============================================
+// COLOR PARSING
+// ============================================
+// a === null means the color did not specify an alpha channel
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number | null;
+}
+
+const reHexColor = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const reFuncColor = /^([a-z-]+)\((.*)\)$/i;
+const reContextColor = /var\(|currentcolor|inherit|color-mix\(|light-dark\(|\bfrom\b|^highlight$/i;
+const parsedColorCache: Map<string, RGBA | null> = new Map();
+const PARSED_COLOR_CACHE_LIMIT = 256;
+
+const clamp = (v: number, lo: number, hi: number) => (v < lo ? lo : (v > hi ? hi : v));
+
+function parseNumber(raw: string, percentScale: number): number {
+  const s = raw.trim().toLowerCase();
+  if (s === 'none') return 0;
+  if (s.endsWith('%')) return (parseFloat(s) / 100) * percentScale;
+  return parseFloat(s);
+}
+
+function parseAlphaChannel(raw: string | undefined): number | null {
+  if (raw === undefined || !raw.trim()) return null;
+  const a = parseNumber(raw, 1);
+  return isNaN(a) ? null : clamp(a, 0, 1);
+}
+
+function parseHue(raw: string): number {
+  const s = raw.trim().toLowerCase();
+  const n = parseFloat(s);
+  if (s.endsWith('grad')) return n * 0.9;
+  if (s.endsWith('rad')) return n * 180 / Math.PI;
+  if (s.endsWith('turn')) return n * 360;
+  return s === 'none' ? 0 : n;
+}
+
+// "r, g, b, a" or "r g b / a" → [channels..., alpha]
+function splitColorArgs(args: string): { channels: string[]; alpha?: string } {
+  if (args.includes(',')) {
+    const parts = args.split(',');
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+  const [main, alpha] = args.split('/');
+  return { channels: main.trim().split(/\s+/), alpha };
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = ((h % 360) + 360) % 360;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+function hwbToRgb(h: number, w: number, bl: number): [number, number, number] {
+  if (w + bl >= 1) {
+    const grey = (w / (w + bl)) * 255;
+    return [grey, grey, grey];
+  }
+  return hslToRgb(h, 1, 0.5).map(c => c * (1 - w - bl) + w * 255) as [number, number, number];
+}
+
+function linearToSrgb(c: number): number {
+  const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return v * 255;
+}
+
+function oklabToRgb(L: number, a: number, b: number): [number, number, number] {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return [
+    linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+  ];
+}
+
+function parseFunctionalColor(name: string, args: string): [number, number, number, number | null] | null {
+  const { channels: c, alpha } = splitColorArgs(args);
+  if (c.length < 3) return null;
+  let rgb: [number, number, number];
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      rgb = [parseNumber(c[0], 255), parseNumber(c[1], 255), parseNumber(c[2], 255)];
+      break;
+    case 'hsl':
+    case 'hsla':
+      rgb = hslToRgb(parseHue(c[0]), parseNumber(c[1], 100) / 100, parseNumber(c[2], 100) / 100);
+      break;
+    case 'hwb':
+      rgb = hwbToRgb(parseHue(c[0]), parseNumber(c[1], 100) / 100, parseNumber(c[2], 100) / 100);
+      break;
+    case 'oklab':
+      rgb = oklabToRgb(parseNumber(c[0], 1), parseNumber(c[1], 0.4), parseNumber(c[2], 0.4));
+      break;
+    case 'oklch': {
+      const C = parseNumber(c[1], 0.4);
+      const H = parseHue(c[2]) * Math.PI / 180;
+      rgb = oklabToRgb(parseNumber(c[0], 1), C * Math.cos(H), C * Math.sin(H));
+      break;
+    }
+    case 'color': {
+      // color(srgb r g b / a) — computed styles serialize color-mix() this way
+      const space = c.shift()!.toLowerCase();
+      if (c.length < 3) return null;
+      const ch = c.map(v => parseNumber(v, 1));
+      if (space === 'srgb') rgb = [ch[0] * 255, ch[1] * 255, ch[2] * 255];
+      else if (space === 'srgb-linear') rgb = [linearToSrgb(ch[0]), linearToSrgb(ch[1]), linearToSrgb(ch[2])];
+      else return null;
+      break;
+    }
+    default:
+      return null;
+  }
+  if (rgb.some(v => isNaN(v))) return null;
+  return [rgb[0], rgb[1], rgb[2], parseAlphaChannel(alpha)];
+}
+
+function parseColor(input: string): RGBA | null {
+  const s = input.trim();
+  if (!s) return null;
+  if (s.toLowerCase() === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+
+  const hexMatch = reHexColor.exec(s);
   if (hexMatch) {
     let h = hexMatch[1];
-    if (h.length === 3) {
-      h = h.split('').map(c => c + c).join('');
-    }
-    const int = parseInt(h, 16);
-    return [(int >> 16) & 255, (int >> 8) & 255, int & 255];
+    if (h.length <= 4) h = h.split('').map(c => c + c).join('');
+    const int = parseInt(h.slice(0, 6), 16);
+    return {
+      r: (int >> 16) & 255,
+      g: (int >> 8) & 255,
+      b: int & 255,
+      a: h.length === 8 ? parseInt(h.slice(6), 16) / 255 : null
+    };
   }
-  
-  const rgbMatch = /^rgba?\(([^)]+)\)$/.exec(colorValue.replace(/\s+/g, ''));
-  if (rgbMatch) {
-    const parts = rgbMatch[1].split(',');
-    return [parseInt(parts[0]), parseInt(parts[1]), parseInt(parts[2])];
+
+  const funcMatch = reFuncColor.exec(s);
+  if (!funcMatch) return null;
+  const parsed = parseFunctionalColor(funcMatch[1].toLowerCase(), funcMatch[2]);
+  if (!parsed) return null;
+  return {
+    r: Math.round(clamp(parsed[0], 0, 255)),
+    g: Math.round(clamp(parsed[1], 0, 255)),
+    b: Math.round(clamp(parsed[2], 0, 255)),
+    a: parsed[3]
+  };
+}
+
+let colorProbe: HTMLElement | null = null;
+let colorCanvas: CanvasRenderingContext2D | null | undefined;
+
+// Ask the browser: named colors, var(), currentColor, color-mix() and anything else valid in CSS
+function computeCSSColor(value: string, el?: HTMLElement): RGBA | null {
+  if (typeof document === 'undefined') return null;
+  if (!colorProbe) {
+    colorProbe = document.createElement('span');
+    colorProbe.style.cssText = 'display:none!important';
   }
-  
-  return null;
+  const probe = colorProbe;
+  probe.style.color = '';
+  probe.style.color = value;
+  if (!probe.style.color) return null;
+
+  const host = el?.isConnected ? el : document.documentElement;
+  let computed = '';
+  try {
+    host.appendChild(probe);
+    computed = getComputedStyle(probe).color;
+  } catch (e) { } finally {
+    probe.parentNode?.removeChild(probe);
+  }
+  return parseColor(computed) || rasterizeColor(computed);
+}
+
+// Last resort for color spaces we don't convert ourselves (lab(), lch(), display-p3, ...)
+function rasterizeColor(value: string): RGBA | null {
+  if (!value) return null;
+  if (colorCanvas === undefined) {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 1;
+      colorCanvas = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+    } catch (e) { colorCanvas = null; }
+  }
+  const ctx = colorCanvas;
+  if (!ctx) return null;
+  try {
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.fillStyle = '#000';
+    ctx.fillStyle = value;
+    ctx.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+    return { r, g, b, a: a === 255 ? null : a / 255 };
+  } catch (e) { return null; }
+}
+
+function resolveColor(value: string, el?: HTMLElement): RGBA | null {
+  const key = value.trim();
+  if (reContextColor.test(key)) return computeCSSColor(key, el);
+
+  if (parsedColorCache.has(key)) return parsedColorCache.get(key)!;
+  const rgba = parseColor(key) || computeCSSColor(key, el);
+  if (parsedColorCache.size >= PARSED_COLOR_CACHE_LIMIT) parsedColorCache.clear();
+  parsedColorCache.set(key, rgba);
+  return rgba;
 }
 
 // ============================================
@@ -179,30 +533,209 @@ function buildSimpleGradient(r: number, g: number, b: number, alpha: number): st
     `transparent 92%)`;
 }
 
+// ============================================
+// WAVE ATTRIBUTE — wave="c=#f00; theme=primary; d=300ms; fade=600ms; offset=50%; center; opacity=.3"
+// ============================================
+// Entries are split on ";" or whitespace (not inside parentheses); "key=value" and "key:value" both work,
+// and a value key written without "=" takes the next entry (the old wave="theme primary" form).
+interface WaveSpec {
+  color?: string;
+  theme?: string;
+  duration?: number;
+  fade?: number;
+  offset?: string;
+  opacity?: number;
+  radius?: number;
+  longPress?: number;
+  center?: boolean;
+  unbounded?: boolean;
+  state?: boolean;
+  pulse?: boolean;
+}
+
+type WaveFlag = 'center' | 'unbounded' | 'state' | 'pulse';
+
+const WAVE_FLAGS: ReadonlySet<string> = new Set<WaveFlag>(['center', 'unbounded', 'state', 'pulse']);
+const WAVE_KEYS: Record<string, string> = {
+  c: 'color', color: 'color', theme: 'theme',
+  d: 'duration', duration: 'duration', fade: 'fade', offset: 'offset',
+  opacity: 'opacity', radius: 'radius', longpress: 'longpress'
+};
+const reWaveEntry = /^([a-z][\w-]*)(?:\s*[=:]\s*([\s\S]*))?$/i;
+const reWaveTime = /^(\d*\.?\d+)(ms|s)?$/i;
+const reWavePercent = /^-?\d+(?:\.\d+)?%$/;
+
+function describeElement(el: Element): string {
+  let out = el.tagName.toLowerCase();
+  if (el.id) out += `#${el.id}`;
+  const cls = (el.getAttribute('class') || '').trim();
+  if (cls) out += '.' + cls.split(/\s+/).join('.');
+  return `<${out}>`;
+}
+
+function warnWaveAttr(el: HTMLElement | undefined, message: string) {
+  if (!WAVE_DEV) return;
+  if (el) console.warn(`[wave-effect] ${message} in wave attribute of ${describeElement(el)}`, el);
+  else console.warn(`[wave-effect] ${message} in wave attribute`);
+}
+
+function tokenizeWaveAttr(attr: string, el?: HTMLElement): string[] {
+  const tokens: string[] = [];
+  let cur = '';
+  let depth = 0;
+  for (let i = 0; i < attr.length; i++) {
+    const ch = attr[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    if (depth === 0 && (ch === ';' || /\s/.test(ch))) {
+      // spaces around "=" / ":" don't end the entry
+      if (ch !== ';' && (/[=:]$/.test(cur) || (cur && /^\s*[=:]/.test(attr.slice(i))))) continue;
+      if (cur) tokens.push(cur);
+      cur = '';
+      continue;
+    }
+    cur += ch;
+  }
+  if (depth > 0) warnWaveAttr(el, `Unbalanced "(" in "${cur}"`);
+  if (cur) tokens.push(cur);
+  return tokens;
+}
+
+// "300", "300ms", ".3s" -> ms; NaN when it isn't a time
+function parseWaveTime(value: string): number {
+  const m = reWaveTime.exec(value);
+  if (!m) return NaN;
+  return Math.round(parseFloat(m[1]) * (m[2]?.toLowerCase() === 's' ? 1000 : 1));
+}
+
+// A bare word after a value key is that key's value, unless it is itself a flag or key
+function isBareValue(token: string): boolean {
+  const m = reWaveEntry.exec(token);
+  if (m && m[2] !== undefined) return false;
+  const name = token.toLowerCase();
+  return !WAVE_FLAGS.has(name) && !WAVE_KEYS[name];
+}
+
+function parseWaveFlag(value: string | undefined): boolean | null {
+  if (value === undefined) return true;
+  if (/^(?:true|on|yes|1)$/i.test(value)) return true;
+  if (/^(?:false|off|no|0)$/i.test(value)) return false;
+  return null;
+}
+
+function parseWaveAttr(attr: string, el?: HTMLElement): WaveSpec {
+  const spec: WaveSpec = {};
+  const tokens = tokenizeWaveAttr(attr, el);
+  for (let i = 0; i < tokens.length; i++) {
+    const m = reWaveEntry.exec(tokens[i]);
+    if (!m) { warnWaveAttr(el, `Cannot read "${tokens[i]}"`); continue; }
+    const name = m[1].toLowerCase();
+    let value = m[2]?.trim();
+
+    if (WAVE_FLAGS.has(name)) {
+      const flag = parseWaveFlag(value);
+      if (flag === null) warnWaveAttr(el, `"${name}" expects no value or true/false, got "${value}"`);
+      else spec[name as WaveFlag] = flag;
+      continue;
+    }
+    const key = WAVE_KEYS[name];
+    if (!key) { warnWaveAttr(el, `Unknown option "${name}"`); continue; }
+    if (value === undefined && i + 1 < tokens.length && isBareValue(tokens[i + 1])) value = tokens[++i];
+    if (!value) { warnWaveAttr(el, `"${name}" is missing a value`); continue; }
+
+    const ms = parseWaveTime(value);
+    switch (key) {
+      case 'color':
+        if (WAVE_DEV && typeof CSS !== 'undefined' && CSS.supports && !CSS.supports('color', value) && !parseColor(value)) {
+          warnWaveAttr(el, `"${value}" is not a valid color`);
+        }
+        spec.color = value;
+        break;
+      case 'theme':
+        if (!/^[\w-]+$/.test(value)) warnWaveAttr(el, `"${value}" is not a theme name`);
+        else spec.theme = value.toLowerCase();
+        break;
+      case 'duration':
+      case 'fade':
+        if (isNaN(ms)) warnWaveAttr(el, `"${name}" expects a time like 300ms or .3s, got "${value}"`);
+        else if (key === 'fade') spec.fade = ms;
+        else spec.duration = ms;
+        break;
+      case 'offset':
+        // kept as text: a percentage is resolved against the expansion duration in readTimingFromCSS
+        if (reWavePercent.test(value)) spec.offset = value;
+        else if (!isNaN(ms)) spec.offset = `${ms}ms`;
+        else warnWaveAttr(el, `"offset" expects a time or a percentage, got "${value}"`);
+        break;
+      case 'opacity': {
+        const pct = /%$/.test(value);
+        const n = parseFloat(value) / (pct ? 100 : 1);
+        if (!/^\d*\.?\d+%?$/.test(value) || n > 1) warnWaveAttr(el, `"opacity" expects 0–1 or 0%–100%, got "${value}"`);
+        else spec.opacity = n;
+        break;
+      }
+      case 'radius':
+        if (!/^\d+(?:\.\d+)?(?:px)?$/i.test(value)) warnWaveAttr(el, `"radius" expects a length in px, got "${value}"`);
+        else spec.radius = parseFloat(value);
+        break;
+      case 'longpress':
+        if (/^(?:off|none|false)$/i.test(value)) spec.longPress = 0;
+        else if (isNaN(ms)) warnWaveAttr(el, `"longpress" expects a time or off, got "${value}"`);
+        else spec.longPress = ms;
+        break;
+    }
+  }
+  return spec;
+}
+
+// Themes can be registered after the element is parsed, so an unknown one is only reported when used, once
+const unknownThemeWarned: WeakSet<WaveSpec> = new WeakSet();
+
+// Parsed once per attribute value; any code path asking about the wave attribute goes through here
+function waveSpec(el: HTMLElement): WaveSpec {
+  const attr = el.getAttribute('wave') || '';
+  const d = getElData(el);
+  if (d.spec && d.specSource === attr) return d.spec;
+  d.specSource = attr;
+  return d.spec = parseWaveAttr(attr, el);
+}
+
 // ============================================
 // COLOR RESOLUTION
 // ============================================
-function resolveRippleColor(el: HTMLElement): {
-  source: 'system' | 'custom' | 'css-var';
-  value: string | SystemColor;
-  isSystem: boolean;
-} {
+// Attribute-derived colors are cached in ElData until a watched attribute changes.
+function resolveRippleColor(el: HTMLElement): RippleColor {
+  const d = getElData(el);
+  if (d.resolved) return d.resolved;
+
+  // ElementOptions beat the attributes, like everywhere else
+  const opts = d.options;
+  if (opts?.color?.trim()) {
+    return d.resolved = { source: 'custom', value: opts.color.trim(), isSystem: false };
+  }
+  const optTheme = opts?.theme ? SYSTEM_COLORS.get(opts.theme.toLowerCase()) : undefined;
+  if (optTheme) {
+    return d.resolved = { source: 'system', value: optTheme, isSystem: true };
+  }
+
   const dataAttr = el.getAttribute('data-ripple-color');
   if (dataAttr?.trim()) {
-    return { source: 'custom', value: dataAttr.trim(), isSystem: false };
+    return d.resolved = { source: 'custom', value: dataAttr.trim(), isSystem: false };
   }
   
-  const waveAttr = el.getAttribute('wave') || '';
-  const waveMatch = reWaveColor.exec(waveAttr);
-  if (waveMatch?.[1]?.trim()) {
-    return { source: 'custom', value: waveMatch[1].trim(), isSystem: false };
+  const spec = waveSpec(el);
+  if (spec.color) {
+    return d.resolved = { source: 'custom', value: spec.color, isSystem: false };
   }
   
-  const themeMatch = /(?:^|\s)theme\s*[=:]?\s*(\w+)/i.exec(waveAttr);
-  if (themeMatch?.[1]) {
-    const sysColor = SYSTEM_COLORS.get(themeMatch[1].toLowerCase());
+  if (spec.theme) {
+    const sysColor = SYSTEM_COLORS.get(spec.theme);
     if (sysColor) {
-      return { source: 'system', value: sysColor, isSystem: true };
+      return d.resolved = { source: 'system', value: sysColor, isSystem: true };
+    }
+    if (!unknownThemeWarned.has(spec)) {
+      unknownThemeWarned.add(spec);
+      warnWaveAttr(el, `Unknown theme "${spec.theme}"`);
     }
   }
   
@@ -220,12 +753,16 @@ function resolveRippleColor(el: HTMLElement): {
 // ============================================
 // TEMPLATE & POOLING
 // ============================================
-const _tpl: HTMLElement = (() => {
-  const s = document.createElement('span');
-  s.className = RIPPLE_CLASS + ' dynamic-halo-pro';
-  s.style.display = 'none';
-  return s;
-})();
+// Created on first use, so importing the module never touches the DOM
+let _tpl: HTMLElement | null = null;
+function rippleTemplate(): HTMLElement {
+  if (!_tpl) {
+    _tpl = document.createElement('span');
+    _tpl.className = RIPPLE_CLASS + ' dynamic-halo-pro';
+    _tpl.style.display = 'none';
+  }
+  return _tpl;
+}
 
 const q: Array<() => void> = [];
 let rafId: number | null = null;
@@ -245,7 +782,9 @@ function schedule(fn: () => void) {
 // ============================================
 // PERFORMANCE DETECTION
 // ============================================
-function detectPerformanceLevel(): 'low' | 'medium' | 'high' {
+type PerfLevel = 'low' | 'medium' | 'high';
+
+function detectPerformanceLevel(): PerfLevel {
   try {
     const nav = navigator as any;
     const cores = nav.hardwareConcurrency ? nav.hardwareConcurrency : 4;
@@ -257,18 +796,109 @@ function detectPerformanceLevel(): 'low' | 'medium' | 'high' {
   } catch (e) { return 'high'; }
 }
 
-const PERF_LEVEL = (typeof window !== 'undefined') ? detectPerformanceLevel() : 'high';
+let PERF_LEVEL: PerfLevel | null = null;
+let perfMode: WaveSettings['perfLevel'] | null = null;
+
+// Outside a browser everything runs as 'high'
+function detectedPerfLevel(): PerfLevel {
+  return typeof navigator !== 'undefined' ? detectPerformanceLevel() : 'high';
+}
+
+// Detected on first use
+function perfLevel(): PerfLevel {
+  if (!PERF_LEVEL) PERF_LEVEL = detectedPerfLevel();
+  return PERF_LEVEL;
+}
+
+function setPerfLevel(level: PerfLevel) {
+  if (level === perfLevel()) return;
+  const root = started ? document.documentElement : null;
+  root?.classList.remove(`wave-${perfLevel()}-performance`);
+  PERF_LEVEL = level;
+  root?.classList.add(`wave-${level}-performance`);
+}
+
+// 'adaptive' (opt-in) starts from the detected tier and moves one step at a time on frame times measured while
+// ripples animate: slow windows step down at once, fast ones have to repeat and wait out a cooldown
+const PERF_TIERS: PerfLevel[] = ['low', 'medium', 'high'];
+const FRAME_WINDOW = 30;
+const SLOW_FRAME_MS = 28;
+const FAST_FRAME_MS = 18;
+const STEP_UP_WINDOWS = 3;
+const STEP_UP_COOLDOWN = 10000;
+let frameTimes: number[] = [];
+let frameRaf: number | null = null;
+let lastFrameAt = 0;
+let sampleUntil = 0;
+let fastWindows = 0;
+let lastStepDown = -Infinity;
+
+function sampleFrames(ms: number) {
+  if (resolvedSettings.perfLevel !== 'adaptive' || typeof requestAnimationFrame === 'undefined') return;
+  sampleUntil = Math.max(sampleUntil, now() + ms);
+  if (frameRaf !== null) return;
+  lastFrameAt = 0;
+  frameRaf = requestAnimationFrame(onSampleFrame);
+}
+
+function onSampleFrame(t: number) {
+  frameRaf = null;
+  // long gaps are tab switches or breakpoints, not rendering cost
+  const delta = lastFrameAt ? t - lastFrameAt : 0;
+  if (delta > 0 && delta < 250 && !document.hidden) frameTimes.push(delta);
+  lastFrameAt = t;
+  if (frameTimes.length >= FRAME_WINDOW) judgeFrames();
+  if (now() < sampleUntil) frameRaf = requestAnimationFrame(onSampleFrame);
+}
 
-try {
-  if (typeof document !== 'undefined' && document.documentElement) {
-    document.documentElement.classList.add(`wave-${PERF_LEVEL}-performance`);
+function judgeFrames() {
+  // the slowest 10% are left out, so a single GC pause doesn't cost a tier
+  const sorted = frameTimes.sort((a, b) => a - b).slice(0, Math.ceil(frameTimes.length * 0.9));
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  frameTimes = [];
+  const index = PERF_TIERS.indexOf(perfLevel());
+  if (mean > SLOW_FRAME_MS) {
+    fastWindows = 0;
+    if (index > 0) {
+      lastStepDown = now();
+      setPerfLevel(PERF_TIERS[index - 1]);
+    }
+  } else if (mean < FAST_FRAME_MS) {
+    fastWindows++;
+    if (fastWindows >= STEP_UP_WINDOWS && index < PERF_TIERS.length - 1 && now() - lastStepDown > STEP_UP_COOLDOWN) {
+      fastWindows = 0;
+      setPerfLevel(PERF_TIERS[index + 1]);
+    }
+  } else {
+    fastWindows = 0;
   }
-} catch (e) { }
+}
+
+function stopFrameSampling() {
+  if (frameRaf !== null) cancelAnimationFrame(frameRaf);
+  frameRaf = null;
+  frameTimes = [];
+  sampleUntil = 0;
+  fastWindows = 0;
+}
+
+// 'adaptive' keeps its measured tier across configure() calls; switching into it starts over from detection
+function applyPerfMode(mode: WaveSettings['perfLevel']) {
+  if (mode !== 'adaptive') stopFrameSampling();
+  if (mode === 'auto' || (mode === 'adaptive' && perfMode !== 'adaptive')) setPerfLevel(detectedPerfLevel());
+  else if (mode !== 'adaptive') setPerfLevel(mode);
+  perfMode = mode;
+}
+
+function getPerfLevel(): PerfLevel {
+  return perfLevel();
+}
 
 function getMaxRipples() {
-  if (PERF_LEVEL === 'low') return 1;
-  if (PERF_LEVEL === 'medium') return 1;
-  return MAX_RIPPLES_PER_ELEMENT;
+  if (explicitSettings.maxRipples !== undefined) return explicitSettings.maxRipples;
+  if (perfLevel() === 'low') return 1;
+  if (perfLevel() === 'medium') return Math.min(2, resolvedSettings.maxRipples);
+  return resolvedSettings.maxRipples;
 }
 
 function getElData(el: HTMLElement): ElData {
@@ -277,6 +907,44 @@ function getElData(el: HTMLElement): ElData {
   return d;
 }
 
+// setTimeout bound to an element, so releaseElement() can cancel what is still pending
+function later(el: HTMLElement, fn: () => void, ms: number) {
+  const d = getElData(el);
+  if (!d.timers) d.timers = new Set();
+  const timers = d.timers;
+  const id = setTimeout(() => { timers.delete(id); fn(); }, ms);
+  timers.add(id);
+}
+
+function invalidateElement(el: HTMLElement) {
+  const d = elData.get(el);
+  if (!d) return;
+  d.resolved = undefined;
+  d.color = undefined;
+  d.gradient = undefined;
+  d._colorStamp = undefined;
+}
+
+function releaseElement(el: HTMLElement) {
+  const d = elData.get(el);
+  if (d?.timers) d.timers.forEach(id => clearTimeout(id));
+  const children = Array.from(el.children);
+  for (const child of children) {
+    if (!child.classList.contains(RIPPLE_CLASS)) continue;
+    el.removeChild(child);
+    dropRippleEvents(child as HTMLElement);
+  }
+  overlayRipples.forEach((rec, node) => {
+    if (rec.el !== el) return;
+    overlayRipples.delete(node);
+    dropRippleEvents(node);
+  });
+  d?.stateLayer?.parentNode?.removeChild(d.stateLayer);
+  activeRipples.delete(el);
+  elData.delete(el);
+  el.classList.remove(SURFACE_CLASS, UNBOUNDED_CLASS, HOVERED_CLASS, FOCUSED_CLASS, PRESSED_CLASS);
+}
+
 // ============================================
 // TIMING UTILS
 // ============================================
@@ -311,107 +979,668 @@ function readTimingFromCSS(el: HTMLElement) {
   const vd = cs ? cs.getPropertyValue('--ripple-duration') : '';
   const vf = cs ? cs.getPropertyValue('--ripple-fade-duration') : '';
   const vo = cs ? cs.getPropertyValue('--ripple-fade-offset') : '';
+  // d= / fade= / offset= in the wave attribute beat the CSS variables
+  const spec = waveSpec(el);
+  const expansionDuration = spec.duration ?? parseTimeToMs(vd, resolvedSettings.rippleDuration);
+  const offset = spec.offset ?? vo.trim();
   return {
-    expansionDuration: parseTimeToMs(vd, FALLBACK_BASE_DURATION),
-    fadeDuration: parseTimeToMs(vf, FALLBACK_FADE_DURATION),
-    fadeOffset: parseOffset(vo, parseTimeToMs(vd, FALLBACK_BASE_DURATION))
+    expansionDuration,
+    fadeDuration: spec.fade ?? parseTimeToMs(vf, resolvedSettings.fadeDuration),
+    fadeOffset: offset ? parseOffset(offset, expansionDuration) : resolvedSettings.fadeOffset
   };
 }
 
 // ============================================
-// RIPPLE LIFECYCLE
+// SETTINGS
 // ============================================
-function getRippleNode(el: HTMLElement): HTMLElement {
-  const d = getElData(el);
-  let node = d.pool.pop();
-  if (!node) node = _tpl.cloneNode(false) as HTMLElement;
-  node.classList.remove('animating', 'fading');
-  return node;
+// Layers, lowest precedence first: inline #wave-setting-json → fetched wave-setting.json → configure()
+interface WaveSettings {
+  rippleDuration: number;
+  fadeDuration: number;
+  fadeOffset: number;
+  easing: string;
+  defaultTheme: string;
+  maxRipples: number;
+  disableTapHighlight: boolean;
+  perfLevel: 'auto' | 'adaptive' | PerfLevel;
+  stateLayers: boolean;
+  hoverOpacity: number;
+  focusOpacity: number;
+  pressedOpacity: number;
+  renderer: RendererName;
+  gradient: 'inline' | 'vars';
+  onStart: WaveEventCallback | null;
+  onRelease: WaveEventCallback | null;
+  onEnd: WaveEventCallback | null;
+  onCancel: WaveEventCallback | null;
+  onLongPress: WaveEventCallback | null;
+  longPressDelay: number;
+  holdPulse: boolean;
+  longPressSuppressClick: boolean;
+  touchSlop: number;
+  pressDelay: number;
+  forcedColors: 'system' | 'skip';
+  focusRipple: 'none' | 'ripple' | 'pulse';
 }
 
-function releaseRippleNode(el: HTMLElement, node: HTMLElement) {
-  node.classList.remove('animating', 'fading');
-  try { node.style.opacity = '0'; } catch (e) { }
-  try { if (node.parentNode === el) el.removeChild(node); } catch (e) { }
-  const d = getElData(el);
-  if (!d.pool) d.pool = [];
-  if (d.pool.length < getMaxRipples()) d.pool.push(node);
+const DEFAULT_SETTINGS: WaveSettings = {
+  rippleDuration: FALLBACK_BASE_DURATION,
+  fadeDuration: FALLBACK_FADE_DURATION,
+  fadeOffset: 0,
+  easing: 'cubic-bezier(0.22, 0.9, 0.28, 1)',
+  defaultTheme: 'default',
+  maxRipples: MAX_RIPPLES_PER_ELEMENT,
+  disableTapHighlight: false,
+  perfLevel: 'auto',
+  stateLayers: false,
+  hoverOpacity: 0.08,
+  focusOpacity: 0.12,
+  pressedOpacity: 0.12,
+  renderer: 'css',
+  gradient: 'inline',
+  onStart: null,
+  onRelease: null,
+  onEnd: null,
+  onCancel: null,
+  onLongPress: null,
+  longPressDelay: 500,
+  holdPulse: false,
+  longPressSuppressClick: false,
+  touchSlop: 10,
+  pressDelay: 0,
+  forcedColors: 'system',
+  focusRipple: 'none'
+};
+
+function toMsSetting(v: unknown): number | undefined {
+  const ms = typeof v === 'number' ? Math.round(v) : (typeof v === 'string' ? parseTimeToMs(v, NaN) : NaN);
+  return isFinite(ms) && ms >= 0 ? ms : undefined;
 }
 
-function fadeOutAndRemoveRipple(
-  ripple: HTMLElement | undefined | null,
-  el: HTMLElement,
-  fadeDurationOverride?: number
-) {
-  if (!ripple) return;
-  let duration = typeof fadeDurationOverride === 'number' ? fadeDurationOverride : undefined;
-  if (duration === undefined) {
-    try {
-      const cs = getComputedStyle(ripple);
-      duration = parseTimeToMs(cs.getPropertyValue('--ripple-fade-duration'), FALLBACK_FADE_DURATION);
-    } catch (e) { duration = FALLBACK_FADE_DURATION; }
+// callbacks only come from configure() / init(); null clears one
+function toCallbackSetting(v: unknown): WaveEventCallback | null | undefined {
+  if (v === null) return null;
+  return typeof v === 'function' ? v as WaveEventCallback : undefined;
+}
+
+function toOpacitySetting(v: unknown): number | undefined {
+  return typeof v === 'number' && v >= 0 && v <= 1 ? v : undefined;
+}
+
+const SETTING_VALIDATORS: { [K in keyof WaveSettings]: (v: unknown) => WaveSettings[K] | undefined } = {
+  rippleDuration: toMsSetting,
+  fadeDuration: toMsSetting,
+  fadeOffset: toMsSetting,
+  easing: v => (typeof v === 'string' && v.trim() ? v.trim() : undefined),
+  defaultTheme: v => (typeof v === 'string' && SYSTEM_COLORS.has(v.toLowerCase()) ? v.toLowerCase() : undefined),
+  maxRipples: v => (typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 16 ? v : undefined),
+  disableTapHighlight: v => (typeof v === 'boolean' ? v : undefined),
+  perfLevel: v => (v === 'auto' || v === 'adaptive' || v === 'low' || v === 'medium' || v === 'high' ? v : undefined),
+  stateLayers: v => (typeof v === 'boolean' ? v : undefined),
+  hoverOpacity: toOpacitySetting,
+  focusOpacity: toOpacitySetting,
+  pressedOpacity: toOpacitySetting,
+  renderer: v => (v === 'css' || v === 'waapi' || v === 'canvas' ? v : undefined),
+  gradient: v => (v === 'inline' || v === 'vars' ? v : undefined),
+  onStart: toCallbackSetting,
+  onRelease: toCallbackSetting,
+  onEnd: toCallbackSetting,
+  onCancel: toCallbackSetting,
+  onLongPress: toCallbackSetting,
+  longPressDelay: toMsSetting,
+  holdPulse: v => (typeof v === 'boolean' ? v : undefined),
+  longPressSuppressClick: v => (typeof v === 'boolean' ? v : undefined),
+  touchSlop: v => (typeof v === 'number' && isFinite(v) && v >= 0 ? v : undefined),
+  pressDelay: toMsSetting,
+  forcedColors: v => (v === 'system' || v === 'skip' ? v : undefined),
+  focusRipple: v => (v === 'none' || v === 'ripple' || v === 'pulse' ? v : undefined)
+};
+
+// Settings that map onto CSS variables on :root: [setting, property, unit]
+const SETTING_CSS_VARS: Array<[keyof WaveSettings, string, string]> = [
+  ['rippleDuration', '--ripple-duration', 'ms'],
+  ['fadeDuration', '--ripple-fade-duration', 'ms'],
+  ['fadeOffset', '--ripple-fade-offset', 'ms'],
+  ['easing', '--ripple-easing', ''],
+  ['hoverOpacity', '--ripple-hover-opacity', ''],
+  ['focusOpacity', '--ripple-focus-opacity', ''],
+  ['pressedOpacity', '--ripple-pressed-opacity', '']
+];
+
+const settingLayers: { inline: Partial<WaveSettings>; file: Partial<WaveSettings>; runtime: Partial<WaveSettings> } = {
+  inline: {},
+  file: {},
+  runtime: {}
+};
+let explicitSettings: Partial<WaveSettings> = {};
+let resolvedSettings: WaveSettings = { ...DEFAULT_SETTINGS };
+let removeTapHighlight: (() => void) | null = null;
+
+function validateSettings(raw: unknown, source: string): Partial<WaveSettings> {
+  const out: Partial<WaveSettings> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    console.warn(`[wave-effect] Ignoring settings from ${source}: expected an object`);
+    return out;
   }
-  ripple.classList.add('fading');
-  ripple.style.setProperty('--ripple-fade-duration', duration + 'ms');
-  let removed = false;
-  function onEnd(e?: TransitionEvent) {
-    if (removed) return;
-    if (!e || e.propertyName === 'opacity') {
-      removed = true;
-      ripple.removeEventListener('transitionend', onEnd as EventListener);
-      const set = activeRipples.get(el);
-      if (set?.delete) set.delete(ripple);
-      releaseRippleNode(el, ripple);
+  for (const key of Object.keys(raw)) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (!Object.prototype.hasOwnProperty.call(SETTING_VALIDATORS, key)) {
+      console.warn(`[wave-effect] Unknown setting "${key}" in ${source}`);
+      continue;
+    }
+    const validated = SETTING_VALIDATORS[key as keyof WaveSettings](value);
+    if (validated === undefined) {
+      console.warn(`[wave-effect] Invalid value for "${key}" in ${source}:`, value);
+      continue;
     }
+    (out as any)[key] = validated;
   }
-  ripple.addEventListener('transitionend', onEnd as EventListener);
-  setTimeout(onEnd, duration + 160);
+  return out;
 }
 
-function clearRipples(el: HTMLElement) {
-  const nodes = el.querySelectorAll('.' + RIPPLE_CLASS);
-  for (let i = 0; i < nodes.length; i++) {
-    const node = nodes[i] as HTMLElement;
-    let fd = FALLBACK_FADE_DURATION;
-    try {
-      const cs = getComputedStyle(node);
-      fd = parseTimeToMs(cs.getPropertyValue('--ripple-fade-duration'), FALLBACK_FADE_DURATION);
-    } catch (e) { }
-    fadeOutAndRemoveRipple(node, el, fd);
+function readInlineSettings() {
+  const script = document.getElementById('wave-setting-json');
+  if (!script) return;
+  try {
+    settingLayers.inline = validateSettings(JSON.parse(script.textContent || '{}'), '#wave-setting-json');
+  } catch (e) {
+    console.warn('[wave-effect] Could not parse #wave-setting-json:', e);
   }
-  activeRipples.set(el, new Set());
 }
 
-function maximalExpandedCoverageRadius(x: number, y: number, width: number, height: number): number {
-  const dx0 = x, dx1 = width - x, dy0 = y, dy1 = height - y;
-  let max = dx0;
-  if (dy0 > max) max = dy0;
-  if (dx1 > max) max = dx1;
-  if (dy1 > max) max = dy1;
-  const h0 = Math.hypot(dx0, dy0); if (h0 > max) max = h0;
-  const h1 = Math.hypot(dx1, dy0); if (h1 > max) max = h1;
-  const h2 = Math.hypot(dx0, dy1); if (h2 > max) max = h2;
-  const h3 = Math.hypot(dx1, dy1); if (h3 > max) max = h3;
-  const cx = Math.abs(width / 2 - x); if (cx > max) max = cx;
-  const cy = Math.abs(height / 2 - y); if (cy > max) max = cy;
-  const diagHalf = Math.hypot(width, height) / 2; if (diagHalf > max) max = diagHalf;
-  const expand = Math.max(width, height) * COVERAGE_EXPAND_RATIO;
+function resolveSettings() {
+  explicitSettings = { ...settingLayers.inline, ...settingLayers.file, ...settingLayers.runtime };
+  resolvedSettings = { ...DEFAULT_SETTINGS, ...explicitSettings };
+  applyPerfMode(resolvedSettings.perfLevel);
+  if (explicitSettings.defaultTheme) markDefaultColor(explicitSettings.defaultTheme);
+  if (started) applySettings();
+}
+
+// DOM side of the settings; runs once started and again on every change
+function applySettings() {
+  const style = document.documentElement.style;
+  for (const [key, prop, unit] of SETTING_CSS_VARS) {
+    const value = explicitSettings[key];
+    if (value === undefined) style.removeProperty(prop);
+    else style.setProperty(prop, String(value) + unit);
+  }
+
+  if (resolvedSettings.disableTapHighlight && !removeTapHighlight) {
+    removeTapHighlight = applyStyleText(TAP_HIGHLIGHT_CSS, document);
+  } else if (!resolvedSettings.disableTapHighlight && removeTapHighlight) {
+    removeTapHighlight();
+    removeTapHighlight = null;
+  }
+
+  document.documentElement.classList.toggle(CANVAS_RENDERER_CLASS, resolvedSettings.renderer === 'canvas');
+}
+
+function clearSettingVars() {
+  const style = document.documentElement.style;
+  for (const [, prop] of SETTING_CSS_VARS) style.removeProperty(prop);
+}
+
+function configure(partial: Partial<WaveSettings>): WaveSettings {
+  settingLayers.runtime = { ...settingLayers.runtime, ...validateSettings(partial, 'configure()') };
+  resolveSettings();
+  return { ...resolvedSettings };
+}
+
+// ============================================
+// LIFECYCLE EVENTS — wave:start / wave:release / wave:cancel / wave:end
+// ============================================
+// Every wave:start is matched by one wave:end; wave:release or wave:cancel says how it was let go
+type WaveEventType = 'start' | 'release' | 'end' | 'cancel' | 'longpress';
+type RippleSource = 'pointer' | 'keyboard' | 'delegate' | 'trigger' | 'focus';
+
+interface WaveEventDetail {
+  ripple: HTMLElement | null;
+  source: RippleSource;
+  x: number;
+  y: number;
+  color: string;
+  duration: number;
+  fadeDuration: number;
+  fadeOffset: number;
+  reason?: string;
+}
+
+type WaveEventCallback = (event: CustomEvent<WaveEventDetail>) => void;
+
+const EVENT_CALLBACKS: Record<WaveEventType, 'onStart' | 'onRelease' | 'onEnd' | 'onCancel' | 'onLongPress'> = {
+  start: 'onStart',
+  release: 'onRelease',
+  end: 'onEnd',
+  cancel: 'onCancel',
+  longpress: 'onLongPress'
+};
+
+const rippleDetails: WeakMap<HTMLElement, WaveEventDetail> = new WeakMap();
+const settledRipples: WeakSet<HTMLElement> = new WeakSet();
+// trigger() handles waiting on a ripple, keyed by its start detail since nodes are pooled
+const rippleEndHooks: WeakMap<WaveEventDetail, () => void> = new WeakMap();
+
+// only wave:longpress is cancelable: preventDefault() there suppresses the click that follows
+function emitWaveEvent(el: HTMLElement, type: WaveEventType, detail: WaveEventDetail): CustomEvent<WaveEventDetail> | null {
+  let event: CustomEvent<WaveEventDetail>;
+  try {
+    event = new CustomEvent('wave:' + type, { bubbles: true, composed: true, cancelable: type === 'longpress', detail });
+  } catch (e) { return null; }
+  el.dispatchEvent(event);
+  const callback = resolvedSettings[EVENT_CALLBACKS[type]];
+  if (callback) {
+    try { callback(event); } catch (e) { console.error(`[wave-effect] ${EVENT_CALLBACKS[type]} callback failed`, e); }
+  }
+  return event;
+}
+
+function rippleColorString(color: RippleColor, el: HTMLElement): string {
+  const { rgba, alpha } = resolveRippleChannels(color.value, color.isSystem, el);
+  return rgba ? `rgba(${rgba.r}, ${rgba.g}, ${rgba.b}, ${alpha})` : '';
+}
+
+function startRippleEvents(
+  el: HTMLElement,
+  ripple: HTMLElement,
+  source: RippleSource,
+  x: number,
+  y: number,
+  color: RippleColor,
+  timings: { expansionDuration: number; fadeDuration: number; fadeOffset: number }
+) {
+  const detail: WaveEventDetail = {
+    ripple, source, x, y,
+    color: rippleColorString(color, el),
+    duration: timings.expansionDuration,
+    fadeDuration: timings.fadeDuration,
+    fadeOffset: timings.fadeOffset
+  };
+  rippleDetails.set(ripple, detail);
+  settledRipples.delete(ripple);
+  // every ripple starts here, whichever renderer draws it
+  sampleFrames(timings.expansionDuration + timings.fadeDuration);
+  emitWaveEvent(el, 'start', detail);
+  return detail;
+}
+
+// wave:release or wave:cancel, whichever comes first
+function settleRipple(el: HTMLElement, ripple: HTMLElement, type: 'release' | 'cancel', reason?: string) {
+  const detail = rippleDetails.get(ripple);
+  if (!detail || settledRipples.has(ripple)) return;
+  settledRipples.add(ripple);
+  emitWaveEvent(el, type, reason ? { ...detail, reason } : detail);
+}
+
+function settleFromEvent(el: HTMLElement, ripple: HTMLElement, evt?: Event) {
+  const type = evt?.type;
+  if (type === 'pointerleave' || type === 'pointercancel' || type === 'lostpointercapture' || type === 'touchcancel') {
+    settleRipple(el, ripple, 'cancel', type);
+  } else {
+    settleRipple(el, ripple, 'release');
+  }
+}
+
+// wave:cancel for a press that was dropped before its ripple appeared
+function cancelUnstarted(el: HTMLElement, source: RippleSource, x: number, y: number, reason: string) {
+  emitWaveEvent(el, 'cancel', {
+    ripple: null, source, x, y, color: '',
+    duration: 0, fadeDuration: 0, fadeOffset: 0, reason
+  });
+}
+
+function runEndHook(detail: WaveEventDetail) {
+  const hook = rippleEndHooks.get(detail);
+  if (!hook) return;
+  rippleEndHooks.delete(detail);
+  hook();
+}
+
+function endRippleEvents(el: HTMLElement, ripple: HTMLElement) {
+  const detail = rippleDetails.get(ripple);
+  if (!detail) return;
+  rippleDetails.delete(ripple);
+  emitWaveEvent(el, 'end', detail);
+  runEndHook(detail);
+}
+
+// host torn down mid-ripple: no wave:end, but nothing may keep waiting on it
+function dropRippleEvents(ripple: HTMLElement) {
+  const detail = rippleDetails.get(ripple);
+  if (!detail) return;
+  rippleDetails.delete(ripple);
+  runEndHook(detail);
+}
+
+// ============================================
+// RIPPLE LIFECYCLE
+// ============================================
+function getRippleNode(el: HTMLElement): HTMLElement {
+  const d = getElData(el);
+  let node = d.pool.pop();
+  if (!node) node = rippleTemplate().cloneNode(false) as HTMLElement;
+  node.classList.remove('animating', 'fading', HOLDING_CLASS, PULSING_CLASS, FLASH_CLASS);
+  return node;
+}
+
+function releaseRippleNode(el: HTMLElement, node: HTMLElement) {
+  cancelRippleAnimations(node);
+  node.classList.remove('animating', 'fading', HOLDING_CLASS, PULSING_CLASS, FLASH_CLASS);
+  try { node.style.opacity = '0'; } catch (e) { }
+  try { if (node.parentNode === el) el.removeChild(node); } catch (e) { }
+  overlayRipples.delete(node);
+  const d = getElData(el);
+  if (!d.pool) d.pool = [];
+  if (d.pool.length < getMaxRipples() && !d.pool.includes(node)) d.pool.push(node);
+}
+
+// Keyboard, trigger() and legacy touch ripples get ids no real pointer uses
+const LEGACY_POINTER_ID = -1;
+const KEYBOARD_POINTER_ID = -2;
+let nextTriggerPointerId = -3;
+
+// A new ripple for the same pointer, or one past the limit, pushes the oldest out
+function trackRipple(el: HTMLElement, pointerId: number, node: HTMLElement, fadeDuration: number) {
+  let ripples = activeRipples.get(el);
+  if (!ripples) { ripples = new Map(); activeRipples.set(el, ripples); }
+  const previous = ripples.get(pointerId);
+  if (previous) evictRipple(el, previous, fadeDuration);
+  const max = getMaxRipples();
+  while (ripples.size >= max) {
+    const oldest = ripples.values().next().value;
+    if (!oldest) break;
+    evictRipple(el, oldest, fadeDuration);
+  }
+  ripples.set(pointerId, node);
+}
+
+function untrackRipple(el: HTMLElement, node: HTMLElement) {
+  const ripples = activeRipples.get(el);
+  ripples?.forEach((n, id) => { if (n === node) ripples.delete(id); });
+}
+
+// Let the expansion reach its fade point first, unless the ripple was replaced in the meantime
+function fadeWhenExpanded(
+  el: HTMLElement,
+  node: HTMLElement,
+  started: WaveEventDetail,
+  startTime: number,
+  fadeAt: number,
+  fadeDuration: number
+) {
+  const fade = () => {
+    // evicted or cleared in the meantime: that fade already owns the node
+    if (rippleDetails.get(node) !== started || node.classList.contains('fading')) return;
+    untrackRipple(el, node);
+    fadeOutAndRemoveRipple(node, el, fadeDuration);
+  };
+  const wait = Math.max(0, fadeAt) - (now() - startTime);
+  if (wait > 0) later(el, fade, wait + 12);
+  else fade();
+}
+
+function evictRipple(el: HTMLElement, node: HTMLElement, fadeDuration: number) {
+  untrackRipple(el, node);
+  settleRipple(el, node, 'cancel', 'replaced');
+  fadeOutAndRemoveRipple(node, el, fadeDuration);
+}
+
+function fadeOutAndRemoveRipple(
+  rippleNode: HTMLElement | undefined | null,
+  el: HTMLElement,
+  fadeDurationOverride?: number,
+  onDone?: () => void
+): () => void {
+  if (!rippleNode) return () => { };
+  const ripple = rippleNode;
+  let duration = typeof fadeDurationOverride === 'number' ? fadeDurationOverride : undefined;
+  if (duration === undefined) {
+    try {
+      const cs = getComputedStyle(ripple);
+      duration = parseTimeToMs(cs.getPropertyValue('--ripple-fade-duration'), FALLBACK_FADE_DURATION);
+    } catch (e) { duration = FALLBACK_FADE_DURATION; }
+  }
+  const anims = rippleAnimations.get(ripple);
+  // read before .fading applies opacity: 0, or the WAAPI fade would start from 0
+  let fromOpacity = '1';
+  if (anims) {
+    try { fromOpacity = getComputedStyle(ripple).opacity || '1'; } catch (e) { }
+  }
+  setHoldPulse(ripple, false);
+  ripple.classList.add('fading');
+  ripple.style.setProperty('--ripple-fade-duration', duration + 'ms');
+  let removed = false;
+  function onEnd(e?: TransitionEvent) {
+    if (removed) return;
+    if (!e || e.propertyName === 'opacity') {
+      removed = true;
+      ripple.removeEventListener('transitionend', onEnd as EventListener);
+      untrackRipple(el, ripple);
+      releaseRippleNode(el, ripple);
+      endRippleEvents(el, ripple);
+      onDone?.();
+    }
+  }
+  const overlay = overlayRipples.get(ripple);
+  if (overlay) {
+    if (overlay.fadeStart === null) overlay.fadeStart = now();
+    overlay.fadeDuration = duration;
+    overlay.onFaded = () => onEnd();
+    later(el, onEnd, duration + 160);
+    return () => onEnd();
+  }
+  if (anims) {
+    // no safety timer: a paused or slowed fade is the caller's choice
+    anims.fade = ripple.animate(
+      [{ opacity: fromOpacity }, { opacity: 0 }],
+      { duration, easing: FADE_EASING, fill: 'forwards' }
+    );
+    anims.fade.finished.then(() => onEnd(), () => onEnd());
+    return () => onEnd();
+  }
+  ripple.addEventListener('transitionend', onEnd as EventListener);
+  later(el, onEnd, duration + 160);
+  return () => onEnd();
+}
+
+function clearRipples(el: HTMLElement) {
+  const nodes = el.querySelectorAll('.' + RIPPLE_CLASS);
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i] as HTMLElement;
+    if (node.classList.contains('fading')) continue;
+    let fd = FALLBACK_FADE_DURATION;
+    try {
+      const cs = getComputedStyle(node);
+      fd = parseTimeToMs(cs.getPropertyValue('--ripple-fade-duration'), FALLBACK_FADE_DURATION);
+    } catch (e) { }
+    settleRipple(el, node, 'cancel', 'cleared');
+    fadeOutAndRemoveRipple(node, el, fd);
+  }
+  overlayRipples.forEach((rec, node) => {
+    if (rec.el !== el || !rec.mounted || node.classList.contains('fading')) return;
+    settleRipple(el, node, 'cancel', 'cleared');
+    fadeOutAndRemoveRipple(node, el);
+  });
+  activeRipples.delete(el);
+}
+
+function maximalExpandedCoverageRadius(x: number, y: number, width: number, height: number): number {
+  const dx0 = x, dx1 = width - x, dy0 = y, dy1 = height - y;
+  let max = dx0;
+  if (dy0 > max) max = dy0;
+  if (dx1 > max) max = dx1;
+  if (dy1 > max) max = dy1;
+  const h0 = Math.hypot(dx0, dy0); if (h0 > max) max = h0;
+  const h1 = Math.hypot(dx1, dy0); if (h1 > max) max = h1;
+  const h2 = Math.hypot(dx0, dy1); if (h2 > max) max = h2;
+  const h3 = Math.hypot(dx1, dy1); if (h3 > max) max = h3;
+  const cx = Math.abs(width / 2 - x); if (cx > max) max = cx;
+  const cy = Math.abs(height / 2 - y); if (cy > max) max = cy;
+  const diagHalf = Math.hypot(width, height) / 2; if (diagHalf > max) max = diagHalf;
+  const expand = Math.max(width, height) * COVERAGE_EXPAND_RATIO;
   return Math.max(max * sqrt2 + expand, 28);
 }
 
-function computePointerLocal(el: HTMLElement, pointer: { clientX?: number; clientY?: number; pageX?: number; pageY?: number }) {
+// ============================================
+// ELEMENT GEOMETRY — transforms, zoom and scaled ancestors
+// ============================================
+// Linear part of a 2D transform in DOMMatrix order: x' = a·x + c·y, y' = b·x + d·y
+type Linear = [number, number, number, number];
+
+// Maps an element's own untransformed layout box (px from its top-left border corner) to client coordinates
+interface LocalFrame {
+  m: Linear;
+  tx: number;
+  ty: number;
+  w: number;
+  h: number;
+  rect: DOMRect;
+}
+
+const IDENTITY: Linear = [1, 0, 0, 1];
+const reMatrix = /^matrix(3d)?\(([^)]+)\)$/;
+
+function multiplyLinear(p: Linear, q: Linear): Linear {
+  return [
+    p[0] * q[0] + p[2] * q[1],
+    p[1] * q[0] + p[3] * q[1],
+    p[0] * q[2] + p[2] * q[3],
+    p[1] * q[2] + p[3] * q[3]
+  ];
+}
+
+function parseAngle(raw: string): number {
+  const v = parseFloat(raw) || 0;
+  if (/grad$/i.test(raw)) return v * Math.PI / 200;
+  if (/rad$/i.test(raw)) return v;
+  if (/turn$/i.test(raw)) return v * 2 * Math.PI;
+  return v * Math.PI / 180;
+}
+
+// rotate · scale · transform, the order the properties compose in; translations don't change the linear part
+function ownLinear(el: Element): Linear | null {
+  let cs: CSSStyleDeclaration;
+  try { cs = getComputedStyle(el); } catch (e) { return null; }
+  let m: Linear | null = null;
+  const matrix = reMatrix.exec(cs.transform || '');
+  if (matrix) {
+    const v = matrix[2].split(',').map(parseFloat);
+    m = matrix[1] ? [v[0], v[1], v[4], v[5]] : [v[0], v[1], v[2], v[3]];
+  }
+  const scale = ((cs as any).scale as string | undefined)?.trim();
+  if (scale && scale !== 'none') {
+    const [sx, sy = sx] = scale.split(/\s+/).map(s => parseFloat(s) / (s.endsWith('%') ? 100 : 1));
+    if (isFinite(sx) && isFinite(sy)) m = multiplyLinear([sx, 0, 0, sy], m || IDENTITY);
+  }
+  const rotate = ((cs as any).rotate as string | undefined)?.trim();
+  if (rotate && rotate !== 'none') {
+    // only turns about the z axis stay in the page plane
+    const parts = rotate.split(/\s+/);
+    const aboutZ = parts.length === 1 || (parts.length === 2 && parts[0] === 'z') || parts.slice(0, 3).join(' ') === '0 0 1';
+    if (aboutZ) {
+      const a = parseAngle(parts[parts.length - 1]);
+      m = multiplyLinear([Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a)], m || IDENTITY);
+    }
+  }
+  return m;
+}
+
+// Flat-tree parent: slotted nodes render inside their slot, shadow roots inside their host
+function composedParent(el: Element): Element | null {
+  if (el.assignedSlot) return el.assignedSlot;
+  if (el.parentElement) return el.parentElement;
+  const root = el.getRootNode?.();
+  return (typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot) ? root.host : null;
+}
+
+// Untransformed layout size; the ripple is sized from this, never from the transformed bounding box
+function layoutSize(el: HTMLElement, rect?: DOMRect): { w: number; h: number } {
+  const r = rect || el.getBoundingClientRect();
+  return { w: el.offsetWidth || r.width || 0, h: el.offsetHeight || r.height || 0 };
+}
+
+// The bounding rect is the box around the transformed corners, which pins down the translation.
+// Any uniform scale the transform chain doesn't explain (CSS zoom) comes from comparing the two sizes.
+function localFrame(el: HTMLElement): LocalFrame {
   const rect = el.getBoundingClientRect();
+  const { w, h } = layoutSize(el, rect);
+  let m = IDENTITY;
+  for (let node: Element | null = el; node; node = composedParent(node)) {
+    const own = ownLinear(node);
+    if (own) m = multiplyLinear(own, m);
+  }
+  const xs = [0, m[0] * w, m[2] * h, m[0] * w + m[2] * h];
+  const ys = [0, m[1] * w, m[3] * h, m[1] * w + m[3] * h];
+  const bw = Math.max(...xs) - Math.min(...xs);
+  const bh = Math.max(...ys) - Math.min(...ys);
+  let k = 1;
+  if (bw && bh && rect.width && rect.height) k = Math.sqrt((rect.width * rect.height) / (bw * bh));
+  else if (bw && rect.width) k = rect.width / bw;
+  else if (bh && rect.height) k = rect.height / bh;
+  if (k !== 1) m = [m[0] * k, m[1] * k, m[2] * k, m[3] * k];
+  return { m, tx: rect.left - Math.min(...xs) * k, ty: rect.top - Math.min(...ys) * k, w, h, rect };
+}
+
+// Client point → local layout px, through the inverse of the frame's transform
+function clientToLocal(frame: LocalFrame, clientX: number, clientY: number): { x: number; y: number } {
+  const [a, b, c, d] = frame.m;
+  const dx = clientX - frame.tx;
+  const dy = clientY - frame.ty;
+  const det = a * d - b * c;
+  if (!det) return { x: dx, y: dy };
+  return { x: (d * dx - c * dy) / det, y: (a * dy - b * dx) / det };
+}
+
+// ============================================
+// VARIANTS — bounded / unbounded / centered
+// ============================================
+interface RippleVariant {
+  unbounded: boolean;
+  center: boolean;
+  radius: number | null;
+}
+
+// ElementOptions (upgradeElement / trigger) take precedence over flags in the wave attribute
+function resolveRippleVariant(el: HTMLElement, overrides: ElementOptions = {}): RippleVariant {
+  const opts = { ...elData.get(el)?.options, ...stripUndefined(overrides) };
+  const spec = waveSpec(el);
+  const unbounded = opts.unbounded ?? spec.unbounded ?? false;
+  return {
+    unbounded,
+    center: opts.center ?? spec.center ?? unbounded,
+    radius: opts.radius ?? spec.radius ?? null
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  const out: Partial<T> = {};
+  for (const key of Object.keys(obj) as Array<keyof T>) {
+    if (obj[key] !== undefined) out[key] = obj[key];
+  }
+  return out;
+}
+
+function rippleGeometry(el: HTMLElement, x: number, y: number, w: number, h: number, overrides?: ElementOptions) {
+  const variant = resolveRippleVariant(el, overrides);
+  el.classList.toggle(UNBOUNDED_CLASS, variant.unbounded);
+  if (variant.center) { x = w / 2; y = h / 2; }
+  let radius: number;
+  if (variant.radius !== null) radius = Math.max(variant.radius, RIPPLE_HALO_START_DIAMETER / 2);
+  else if (variant.unbounded) radius = Math.max(w, h) * UNBOUNDED_RADIUS_RATIO;
+  else radius = maximalExpandedCoverageRadius(x, y, w, h);
+  return { x, y, scale: (radius * 2) / RIPPLE_HALO_START_DIAMETER };
+}
+
+function computePointerLocal(el: HTMLElement, pointer: { clientX?: number; clientY?: number; pageX?: number; pageY?: number }) {
+  const frame = localFrame(el);
   const vv: any = (typeof window !== 'undefined' && (window as any).visualViewport) ? (window as any).visualViewport : null;
   const vx = vv ? (vv.offsetLeft || 0) : 0;
   const vy = vv ? (vv.offsetTop || 0) : 0;
   const cx = (pointer.clientX !== undefined ? pointer.clientX : (pointer.pageX! - (window.pageXOffset || 0))) - vx;
   const cy = (pointer.clientY !== undefined ? pointer.clientY : (pointer.pageY! - (window.pageYOffset || 0))) - vy;
-  const x = cx - rect.left;
-  const y = cy - rect.top;
-  const w = rect.width || 0;
-  const h = rect.height || 0;
+  const { x, y } = clientToLocal(frame, cx, cy);
+  const { w, h } = frame;
   return {
-    rect,
+    rect: frame.rect,
     x: x < 0 ? 0 : (x > w ? w : x),
     y: y < 0 ? 0 : (y > h ? h : y),
     w, h
@@ -422,8 +1651,84 @@ function computePointerLocal(el: HTMLElement, pointer: { clientX?: number; clien
 // ANIMATION
 // ============================================
 function animateRipple(node: HTMLElement, scale: number, expansionDuration: number) {
+  const overlay = overlayRipples.get(node);
+  if (overlay) {
+    overlay.start = now();
+    overlay.duration = expansionDuration;
+    return;
+  }
   node.style.transform = `translate3d(0,0,0) scale(${scale})`;
   try { (node.style as any).backfaceVisibility = 'hidden'; } catch (e) { }
+  const anims = rippleAnimations.get(node);
+  if (anims && !node.classList.contains(FLASH_CLASS)) {
+    let easing = '';
+    try { easing = getComputedStyle(node).getPropertyValue('--ripple-easing').trim(); } catch (e) { }
+    anims.expand = node.animate(
+      [{ transform: 'translate3d(0,0,0) scale(1)' }, { transform: `translate3d(0,0,0) scale(${scale})` }],
+      { duration: expansionDuration, easing: easing || resolvedSettings.easing, fill: 'forwards' }
+    );
+  }
+}
+
+// A cancelled press fades out at its current size instead of growing on to full size
+function freezeRipple(node: HTMLElement) {
+  const overlay = overlayRipples.get(node);
+  if (overlay) {
+    const t = now();
+    const progress = overlay.start ? overlay.easing(Math.min(1, (t - overlay.start) / overlay.duration)) : 0;
+    overlay.scale = 1 + (overlay.scale - 1) * progress;
+    overlay.start = t - overlay.duration;
+    return;
+  }
+  const anims = rippleAnimations.get(node);
+  if (anims?.expand) {
+    try { anims.expand.pause(); } catch (e) { }
+    return;
+  }
+  try {
+    const current = getComputedStyle(node).transform;
+    if (current) node.style.transform = current;
+  } catch (e) { }
+}
+
+// ============================================
+// RENDERERS — CSS transitions (default) / Web Animations / shared canvas overlay
+// ============================================
+type RendererName = 'css' | 'waapi' | 'canvas';
+const FADE_EASING = 'cubic-bezier(0.4, 0, 0.2, 1)';
+
+interface RippleAnimations {
+  expand?: Animation;
+  fade?: Animation;
+}
+
+// Ripples rendered with element.animate(); absent entries use the CSS transition path
+const rippleAnimations: WeakMap<HTMLElement, RippleAnimations> = new WeakMap();
+
+// wave-renderer="…" on the element or any ancestor overrides the renderer setting
+function rendererFor(el: HTMLElement): RendererName {
+  const scoped = el.closest('[wave-renderer]')?.getAttribute('wave-renderer');
+  const name = scoped === 'css' || scoped === 'waapi' || scoped === 'canvas' ? scoped : resolvedSettings.renderer;
+  if (name === 'waapi' && typeof el.animate !== 'function') return 'css';
+  return name;
+}
+
+function cancelRippleAnimations(node: HTMLElement) {
+  const anims = rippleAnimations.get(node);
+  if (!anims) return;
+  rippleAnimations.delete(node);
+  try { anims.expand?.cancel(); } catch (e) { }
+  try { anims.fade?.cancel(); } catch (e) { }
+}
+
+function getAnimations(el: HTMLElement): Animation[] {
+  const out: Animation[] = [];
+  activeRipples.get(el)?.forEach(node => {
+    const anims = rippleAnimations.get(node);
+    if (anims?.expand) out.push(anims.expand);
+    if (anims?.fade) out.push(anims.fade);
+  });
+  return out;
 }
 
 function createRippleElement(
@@ -431,16 +1736,29 @@ function createRippleElement(
   x: number,
   y: number,
   scale: number,
-  color: { source: string; value: any; isSystem: boolean },
+  color: RippleColor,
   timings: { expansionDuration: number; fadeDuration: number; fadeOffset: number }
 ): HTMLElement {
   const ripple = getRippleNode(el);
+  const renderer = rendererFor(el);
+  // reduced motion: no expansion, a flat full-size ripple that only fades
+  const flash = prefersReducedMotion;
+  color = accessibleColor(color);
+  if (renderer === 'canvas') {
+    // never attached; the node only stands in for the ripple drawn on the overlay
+    overlayRipples.set(ripple, createOverlayRipple(el, x, y, scale, color, flash));
+    return ripple;
+  }
   const size = RIPPLE_HALO_START_DIAMETER + 'px';
   const left = (x - RIPPLE_HALO_START_DIAMETER / 2) + 'px';
   const top = (y - RIPPLE_HALO_START_DIAMETER / 2) + 'px';
   
-  const bg = computeGradient(color.value, color.isSystem);
-  const boxShadow = PERF_LEVEL === 'low' ? 'none' : 'var(--ripple-shadow, 0 4px 12px rgba(8, 12, 20, 0.04))';
+  const vars = !flash && resolvedSettings.gradient === 'vars';
+  let paint: string;
+  if (flash) paint = `background:${rippleColorString(color, el) || 'rgba(128, 128, 128, 0.22)'};`;
+  else if (vars) paint = gradientVars(color.value, color.isSystem, el);
+  else paint = `background:${computeGradient(color.value, color.isSystem, el)};`;
+  const boxShadow = perfLevel() === 'low' || flash ? 'none' : 'var(--ripple-shadow, 0 4px 12px rgba(8, 12, 20, 0.04))';
   
   ripple.style.cssText =
     `display:block;position:absolute;border-radius:50%;pointer-events:none;` +
@@ -448,238 +1766,1061 @@ function createRippleElement(
     `--ripple-duration:${timings.expansionDuration}ms;` +
     `--ripple-fade-duration:${timings.fadeDuration}ms;` +
     `--ripple-final-scale:${scale};` +
-    `background:${bg};` +
-    `transform:scale(1) translate3d(0,0,0);` +
+    paint +
+    `transform:${flash ? `scale(${scale})` : 'scale(1)'} translate3d(0,0,0);` +
     `backface-visibility:hidden;` +
     `box-shadow:${boxShadow};`;
   
+  ripple.classList.toggle(FLASH_CLASS, flash);
+  ripple.classList.toggle(GRADIENT_VARS_CLASS, vars);
+  ripple.classList.toggle(GRADIENT_SIMPLE_CLASS, vars && perfLevel() === 'low');
+  if (renderer === 'waapi') {
+    ripple.style.transition = 'none';
+    rippleAnimations.set(ripple, {});
+  }
   return ripple;
 }
 
+// ============================================
+// OVERLAY RENDERER — one fixed canvas shared by every host
+// ============================================
+// Hosts are only measured, never styled, so long lists can opt in without touching their layout
+const OVERLAY_CLASS = 'ripple-overlay';
+const CANVAS_RENDERER_CLASS = 'wave-canvas-renderer';
+
+// [offset, share of peak alpha] — same layout as buildSmoothGradient / buildSimpleGradient
+const OVERLAY_STOPS: Array<[number, number]> = [[0, 0.45], [0.12, 0.68], [0.24, 0.85], [0.38, 1], [0.58, 0.22], [0.78, 0.06], [0.96, 0]];
+const OVERLAY_STOPS_LOW: Array<[number, number]> = [[0, 0.5], [0.35, 1], [0.7, 0.15], [0.92, 0]];
+const OVERLAY_STOPS_FLAT: Array<[number, number]> = [[0, 1], [1, 1]];
+
+interface OverlayRipple {
+  el: HTMLElement;
+  x: number;
+  y: number;
+  scale: number;
+  rgb: string;
+  alpha: number;
+  stops: Array<[number, number]>;
+  flash: boolean;
+  radii: string[];
+  unbounded: boolean;
+  easing: (p: number) => number;
+  mounted: boolean;
+  start: number;
+  duration: number;
+  fadeStart: number | null;
+  fadeDuration: number;
+  pulseStart: number | null;
+  // z-index the canvas needs in the root stacking context to sit above this host
+  z: number;
+  onFaded?: () => void;
+}
+
+// keyed by the detached ripple node, which stays the ripple's identity for pooling and activeRipples
+const overlayRipples: Map<HTMLElement, OverlayRipple> = new Map();
+let overlayCanvas: HTMLCanvasElement | null = null;
+let overlayRaf: number | null = null;
+
+const EASING_KEYWORDS: Record<string, string> = {
+  linear: 'cubic-bezier(0, 0, 1, 1)',
+  ease: 'cubic-bezier(0.25, 0.1, 0.25, 1)',
+  'ease-in': 'cubic-bezier(0.42, 0, 1, 1)',
+  'ease-out': 'cubic-bezier(0, 0, 0.58, 1)',
+  'ease-in-out': 'cubic-bezier(0.42, 0, 0.58, 1)'
+};
+const easingCache: Map<string, (p: number) => number> = new Map();
+
+// CSS cubic-bezier() as a function of progress; anything unparsable gets the default curve
+function easingFunction(spec: string): (p: number) => number {
+  const key = spec.trim();
+  const cached = easingCache.get(key);
+  if (cached) return cached;
+  const m = /^cubic-bezier\(([^)]+)\)$/i.exec(EASING_KEYWORDS[key] || key);
+  const n = m ? m[1].split(',').map(parseFloat) : [];
+  const [x1, y1, x2, y2] = n.length === 4 && n.every(isFinite) ? n : [0.22, 0.9, 0.28, 1];
+  const bezier = (a: number, b: number, t: number) => 3 * a * t * (1 - t) * (1 - t) + 3 * b * t * t * (1 - t) + t * t * t;
+  const fn = (p: number) => {
+    if (p <= 0) return 0;
+    if (p >= 1) return 1;
+    let lo = 0, hi = 1, t = p;
+    for (let i = 0; i < 20; i++) {
+      const x = bezier(x1, x2, t);
+      if (Math.abs(x - p) < 1e-4) break;
+      if (x < p) lo = t; else hi = t;
+      t = (lo + hi) / 2;
+    }
+    return bezier(y1, y2, t);
+  };
+  easingCache.set(key, fn);
+  return fn;
+}
+
+function createOverlayRipple(el: HTMLElement, x: number, y: number, scale: number, color: RippleColor, flash: boolean): OverlayRipple {
+  const { rgba, alpha } = resolveRippleChannels(color.value, color.isSystem, el);
+  let radii = ['0', '0', '0', '0'];
+  let easing = '';
+  try {
+    const cs = getComputedStyle(el);
+    radii = [cs.borderTopLeftRadius, cs.borderTopRightRadius, cs.borderBottomRightRadius, cs.borderBottomLeftRadius];
+    easing = cs.getPropertyValue('--ripple-easing');
+  } catch (e) { }
+  return {
+    el, x, y, scale,
+    rgb: rgba ? `${rgba.r},${rgba.g},${rgba.b}` : '128,128,128',
+    alpha,
+    stops: flash ? OVERLAY_STOPS_FLAT : (perfLevel() === 'low' || !rgba ? OVERLAY_STOPS_LOW : OVERLAY_STOPS),
+    flash,
+    radii,
+    unbounded: el.classList.contains(UNBOUNDED_CLASS),
+    easing: easingFunction(easing || resolvedSettings.easing),
+    mounted: false,
+    start: 0,
+    duration: FALLBACK_BASE_DURATION,
+    fadeStart: null,
+    fadeDuration: FALLBACK_FADE_DURATION,
+    pulseStart: null,
+    z: 0
+  };
+}
+
+function mountRipple(el: HTMLElement, node: HTMLElement) {
+  const overlay = overlayRipples.get(node);
+  if (!overlay) { el.appendChild(node); return; }
+  overlay.mounted = true;
+  overlay.z = rootStackingZ(el);
+  if (overlayRaf === null) overlayRaf = requestAnimationFrame(drawOverlay);
+}
+
+function isRippleMounted(node: HTMLElement): boolean {
+  return !!node.parentNode || !!overlayRipples.get(node)?.mounted;
+}
+
+// The z-index of the host's outermost stacking context. The overlay lives in the root context, so
+// matching it (and coming later in the DOM) puts ripples above the host but below higher layers.
+function rootStackingZ(el: HTMLElement): number {
+  let z = 0;
+  for (let node: Element | null = el; node && node !== document.documentElement; node = composedParent(node)) {
+    let cs: CSSStyleDeclaration;
+    try { cs = getComputedStyle(node); } catch (e) { continue; }
+    const value = parseInt(cs.zIndex, 10);
+    if (isNaN(value)) continue;
+    const parent = composedParent(node);
+    let parentDisplay = '';
+    try { parentDisplay = parent ? getComputedStyle(parent).display : ''; } catch (e) { }
+    // z-index only applies to positioned elements and flex / grid items
+    if (cs.position !== 'static' || /flex|grid/.test(parentDisplay)) z = value;
+  }
+  return Math.max(0, z);
+}
+
+function ensureOverlayCanvas(): CanvasRenderingContext2D | null {
+  if (!overlayCanvas) {
+    overlayCanvas = document.createElement('canvas');
+    overlayCanvas.className = OVERLAY_CLASS;
+    overlayCanvas.setAttribute('aria-hidden', 'true');
+    overlayCanvas.style.cssText =
+      'position:fixed;left:0;top:0;width:100vw;height:100vh;pointer-events:none;' +
+      'z-index:var(--ripple-overlay-z-index,0);';
+  }
+  if (!overlayCanvas.isConnected) document.body.appendChild(overlayCanvas);
+  const dpr = window.devicePixelRatio || 1;
+  const width = Math.round(window.innerWidth * dpr);
+  const height = Math.round(window.innerHeight * dpr);
+  if (overlayCanvas.width !== width) overlayCanvas.width = width;
+  if (overlayCanvas.height !== height) overlayCanvas.height = height;
+  let ctx: CanvasRenderingContext2D | null = null;
+  try { ctx = overlayCanvas.getContext('2d'); } catch (e) { }
+  ctx?.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+}
+
+function cornerRadius(raw: string, w: number, h: number): number {
+  const first = (raw || '').trim().split(/\s+/)[0] || '0';
+  const v = parseFloat(first) || 0;
+  const px = first.endsWith('%') ? (v / 100) * Math.min(w, h) : v;
+  return Math.min(Math.max(px, 0), w / 2, h / 2);
+}
+
+// In the host's local space: (0, 0) is its top-left border corner
+function traceRoundedRect(ctx: CanvasRenderingContext2D, width: number, height: number, radii: string[]) {
+  const [tl, tr, br, bl] = radii.map(r => cornerRadius(r, width, height));
+  ctx.beginPath();
+  ctx.moveTo(tl, 0);
+  ctx.arcTo(width, 0, width, height, tr);
+  ctx.arcTo(width, height, 0, height, br);
+  ctx.arcTo(0, height, 0, 0, bl);
+  ctx.arcTo(0, 0, width, 0, tl);
+  ctx.closePath();
+}
+
+interface ClipBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const reClipsOverflow = /hidden|auto|scroll|clip/;
+
+// The part of the viewport the host can paint into: the intersection of its clipping ancestors' padding boxes.
+// Follows containing blocks like the DOM does, so absolute / fixed hosts escape the scrollers they sit in.
+function visibleClip(el: HTMLElement): ClipBox {
+  const clip: ClipBox = { left: 0, top: 0, right: window.innerWidth, bottom: window.innerHeight };
+  let position = '';
+  try { position = getComputedStyle(el).position; } catch (e) { }
+  for (let node = composedParent(el); node && position !== 'fixed'; node = composedParent(node)) {
+    if (node === document.documentElement || node === document.body) break;
+    let cs: CSSStyleDeclaration;
+    try { cs = getComputedStyle(node); } catch (e) { continue; }
+    const containing = cs.position !== 'static' || cs.transform !== 'none';
+    if (position === 'absolute' && !containing) continue;
+    if (reClipsOverflow.test(cs.overflowX) || reClipsOverflow.test(cs.overflowY)) {
+      const r = node.getBoundingClientRect();
+      const box = node as HTMLElement;
+      const sx = box.offsetWidth ? r.width / box.offsetWidth : 1;
+      const sy = box.offsetHeight ? r.height / box.offsetHeight : 1;
+      const left = r.left + box.clientLeft * sx;
+      const top = r.top + box.clientTop * sy;
+      clip.left = Math.max(clip.left, left);
+      clip.top = Math.max(clip.top, top);
+      clip.right = Math.min(clip.right, left + (box.clientWidth || r.width / sx) * sx);
+      clip.bottom = Math.min(clip.bottom, top + (box.clientHeight || r.height / sy) * sy);
+    }
+    if (containing) position = cs.position;
+  }
+  return clip;
+}
+
+function drawOverlayRipple(ctx: CanvasRenderingContext2D, overlay: OverlayRipple, t: number) {
+  // re-measured every frame, so ripples follow scrolling, layout changes and transforms
+  const frame = localFrame(overlay.el);
+  const rect = frame.rect;
+  const clip = visibleClip(overlay.el);
+  if (clip.right <= clip.left || clip.bottom <= clip.top) return;
+  if (rect.bottom < clip.top || rect.right < clip.left || rect.top > clip.bottom || rect.left > clip.right) return;
+  const progress = overlay.flash ? 1 : overlay.start ? overlay.easing(Math.min(1, (t - overlay.start) / overlay.duration)) : 0;
+  const radius = (RIPPLE_HALO_START_DIAMETER / 2) * (1 + (overlay.scale - 1) * progress);
+  const cx = overlay.x;
+  const cy = overlay.y;
+
+  ctx.save();
+  // rows scrolled half out of a grid, or under its sticky header, stay inside the grid's visible area
+  ctx.beginPath();
+  ctx.rect(clip.left, clip.top, clip.right - clip.left, clip.bottom - clip.top);
+  ctx.clip();
+  // draw in the host's local space, so rotated / scaled / zoomed hosts clip and ripple like the DOM renderer
+  const [a, b, c, d] = frame.m;
+  ctx.transform(a, b, c, d, frame.tx, frame.ty);
+  if (!overlay.unbounded) {
+    traceRoundedRect(ctx, frame.w, frame.h, overlay.radii);
+    ctx.clip();
+  }
+  if (overlay.fadeStart !== null) {
+    ctx.globalAlpha = 1 - easingFunction(FADE_EASING)(Math.min(1, (t - overlay.fadeStart) / overlay.fadeDuration));
+  } else if (overlay.pulseStart !== null) {
+    // same 1 → 0.6 → 1 breathing as the ripple-hold-pulse keyframes
+    ctx.globalAlpha = 0.8 + 0.2 * Math.cos((2 * Math.PI * (t - overlay.pulseStart)) / HOLD_PULSE_PERIOD);
+  }
+  // circle-at-center gradients run to the corner of the ripple's box, hence the sqrt2
+  const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius * sqrt2);
+  for (const [offset, share] of overlay.stops) {
+    gradient.addColorStop(offset, `rgba(${overlay.rgb},${(overlay.alpha * share).toFixed(3)})`);
+  }
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawOverlay() {
+  overlayRaf = null;
+  const ctx = ensureOverlayCanvas();
+  const t = now();
+  ctx?.clearRect(0, 0, window.innerWidth, window.innerHeight);
+  const faded: OverlayRipple[] = [];
+  let z = 0;
+  overlayRipples.forEach(overlay => {
+    if (!overlay.mounted) return;
+    z = Math.max(z, overlay.z);
+    if (overlay.fadeStart !== null && t - overlay.fadeStart >= overlay.fadeDuration) {
+      faded.push(overlay);
+      return;
+    }
+    if (ctx && overlay.el.isConnected) drawOverlayRipple(ctx, overlay, t);
+  });
+  const zIndex = `var(--ripple-overlay-z-index,${z})`;
+  if (overlayCanvas && overlayCanvas.style.zIndex !== zIndex) overlayCanvas.style.zIndex = zIndex;
+  faded.forEach(overlay => overlay.onFaded?.());
+  if (overlayRipples.size) overlayRaf = requestAnimationFrame(drawOverlay);
+  else ctx?.clearRect(0, 0, window.innerWidth, window.innerHeight);
+}
+
+function teardownOverlay() {
+  if (overlayRaf !== null) cancelAnimationFrame(overlayRaf);
+  overlayRaf = null;
+  overlayRipples.clear();
+  overlayCanvas?.parentNode?.removeChild(overlayCanvas);
+  overlayCanvas = null;
+}
+
+// ============================================
+// LONG PRESS — hold ripple + wave:longpress
+// ============================================
+const HOLDING_CLASS = 'holding';
+const PULSING_CLASS = 'pulsing';
+const HOLD_PULSE_PERIOD = 1200;
+
+// 0 turns long-press off; options beat wave="longpress=…", which beats the setting
+function longPressDelayFor(el: HTMLElement): number {
+  const opt = elData.get(el)?.options?.longPress;
+  if (opt !== undefined) return opt;
+  return waveSpec(el).longPress ?? resolvedSettings.longPressDelay;
+}
+
+function holdPulseFor(el: HTMLElement): boolean {
+  const opt = elData.get(el)?.options?.pulse;
+  if (opt !== undefined) return opt;
+  return waveSpec(el).pulse ?? resolvedSettings.holdPulse;
+}
+
+let disarmClickGuard: (() => void) | null = null;
+
+// Swallows the click that follows a long-press; the next pointerdown disarms it if no click comes
+function suppressNextClick(el: HTMLElement) {
+  disarmClickGuard?.();
+  const onClick = (e: Event) => {
+    disarm();
+    if (e.composedPath().includes(el)) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+    }
+  };
+  const disarm = () => {
+    document.removeEventListener('click', onClick, true);
+    document.removeEventListener('pointerdown', disarm, true);
+    if (disarmClickGuard === disarm) disarmClickGuard = null;
+  };
+  document.addEventListener('click', onClick, true);
+  document.addEventListener('pointerdown', disarm, true);
+  disarmClickGuard = disarm;
+}
+
+function setHoldPulse(ripple: HTMLElement, on: boolean) {
+  const overlay = overlayRipples.get(ripple);
+  if (overlay) overlay.pulseStart = on ? now() : null;
+  else ripple.classList.toggle(PULSING_CLASS, on);
+}
+
+// The ripple already stays at full coverage until release; this marks the moment a tap becomes a hold
+function watchLongPress(el: HTMLElement, ripple: HTMLElement, detail: WaveEventDetail) {
+  const delay = longPressDelayFor(el);
+  if (!delay) return;
+  const pulse = holdPulseFor(el);
+  later(el, () => {
+    if (rippleDetails.get(ripple) !== detail || settledRipples.has(ripple)) return;
+    ripple.classList.add(HOLDING_CLASS);
+    if (pulse && !prefersReducedMotion) setHoldPulse(ripple, true);
+    const event = emitWaveEvent(el, 'longpress', detail);
+    if (event?.defaultPrevented || resolvedSettings.longPressSuppressClick) suppressNextClick(el);
+  }, delay);
+}
+
+// ============================================
+// KEYBOARD — Space / Enter presses and the focus ripple
+// ============================================
+const reButtonLikeInput = /^(?:button|submit|reset|checkbox|radio|image|color|file|range)$/i;
+
+function isEditable(node: Element): boolean {
+  if ((node as HTMLElement).isContentEditable) return true;
+  const name = node.localName;
+  if (name === 'textarea' || name === 'select') return true;
+  return name === 'input' && !reButtonLikeInput.test((node as HTMLInputElement).type);
+}
+
+// Only a key pressed on the focused host itself (or inside its own shadow root) counts;
+// keys typed into nested inputs or other controls inside a [wave] container do not
+function isRippleKeyPress(el: HTMLElement, e: KeyboardEvent): boolean {
+  if (e.key !== ' ' && e.key !== 'Enter') return false;
+  if (e.repeat) return false;
+  const target = composedElements(e)[0];
+  if (!target || isEditable(target)) return false;
+  return target === el || (!!el.shadowRoot && target.getRootNode() === el.shadowRoot);
+}
+
+const focusHandles: WeakMap<HTMLElement, RippleHandle> = new WeakMap();
+
+// focusRipple setting: "ripple" plays one centered ripple, "pulse" holds a pulsing one until blur
+function installFocusRipple() {
+  listen(document, 'focusin', ((e: FocusEvent) => {
+    const mode = resolvedSettings.focusRipple;
+    if (mode === 'none') return;
+    const path = composedElements(e);
+    const el = findWaveTarget(path);
+    if (!el || path[0] !== el || rippleSuppressed(el)) return;
+    let visible = false;
+    try { visible = el.matches(':focus-visible'); } catch (err) { }
+    if (!visible) return;
+    focusHandles.get(el)?.release();
+    const pulse = mode === 'pulse';
+    focusHandles.set(el, trigger(el, { center: true, hold: pulse, pulse }, 'focus'));
+  }) as EventListener);
+  listen(document, 'focusout', ((e: FocusEvent) => {
+    const el = findWaveTarget(composedElements(e));
+    if (!el) return;
+    focusHandles.get(el)?.release();
+    focusHandles.delete(el);
+  }) as EventListener);
+}
+
 // ============================================
 // EVENT HANDLERS
 // ============================================
-function onPointerDown(this: HTMLElement, e: any) {
+const GESTURE_CANCEL_EVENTS = new Set(['pointercancel', 'lostpointercapture', 'touchcancel']);
+
+// Returns the function that ends this press, so delegation can end it from the container
+function onPointerDown(this: HTMLElement, e: any): ((evt?: Event) => void) | undefined {
   if (e.button && e.button !== 0) return;
   const el = this;
   if (!el) return;
   if ((globalThis as any).__wave_ignore_events__) return;
-  if ((onPointerDown as any)._use_isRapidScrollFlag_internal?.()) return;
+  const source: RippleSource = e._ripple_from_delegate ? 'delegate' : 'pointer';
 
+  const origin = e.touches ? e.touches[0] : e;
   let p: any;
   if (e._ripple_override_coords) {
     p = e._ripple_override_coords;
   } else {
-    const pointer = e.touches ? e.touches[0] : e;
-    p = computePointerLocal(el, pointer);
+    p = computePointerLocal(el, origin);
+  }
+
+  if ((onPointerDown as any)._use_isRapidScrollFlag_internal?.()) {
+    cancelUnstarted(el, source, p.x, p.y, 'rapid-scroll');
+    return;
+  }
+
+  const timings = readTimingFromCSS(el);
+  const scaledDuration = Math.max(120, Math.round(timings.expansionDuration));
+  const fadeDuration = Math.max(32, Math.round(timings.fadeDuration));
+  const fadeOffset = Math.max(0, Math.round(timings.fadeOffset));
+
+  const geo = rippleGeometry(el, p.x, p.y, p.w, p.h);
+  const haloFinalScale = geo.scale;
+  const color = resolveRippleColor(el);
+
+  // real pointers end their own ripple only; legacy touch events have no pointerId to match on
+  const pointerId: number = typeof e.pointerId === 'number' ? e.pointerId : LEGACY_POINTER_ID;
+  let ripple: HTMLElement | null = null;
+  let detail: WaveEventDetail | null = null;
+  let startTime = 0;
+  let ended = false;
+  let cancelled = false;
+  let shown = false;
+  let endEvent: Event | undefined;
+  // mouse presses never turn into a pan, so they skip the slop check and the delay
+  const isMouse = e.pointerType === 'mouse';
+  const delay = isMouse ? 0 : resolvedSettings.pressDelay;
+  const slop = isMouse ? Infinity : resolvedSettings.touchSlop;
+
+  // attached right away, so a release that lands before the scheduled frame is not missed
+  function endRipple(evt?: Event) {
+    if (ended) return;
+    const id = (evt as PointerEvent | undefined)?.pointerId;
+    if (typeof id === 'number' && pointerId !== LEGACY_POINTER_ID && id !== pointerId) return;
+    // the browser took the gesture over (pan, system UI): never a release, even inside pressDelay
+    if (evt && GESTURE_CANCEL_EVENTS.has(evt.type)) { cancelPress(evt.type); return; }
+    ended = true;
+    endEvent = evt;
+    removeListeners();
+    if (ripple && detail) fadeRipple(ripple, detail);
+    // a tap released inside pressDelay still gets its ripple, just without waiting out the delay
+    else if (delay > 0) schedule(show);
+  }
+
+  // the press became a pan or a scroll: drop the ripple, or never show it
+  function cancelPress(reason: string) {
+    if (ended) return;
+    ended = true;
+    cancelled = true;
+    removeListeners();
+    if (!ripple || !detail) {
+      cancelUnstarted(el, source, geo.x, geo.y, reason);
+      return;
+    }
+    if (rippleDetails.get(ripple) !== detail) return;
+    settleRipple(el, ripple, 'cancel', reason);
+    untrackRipple(el, ripple);
+    freezeRipple(ripple);
+    fadeOutAndRemoveRipple(ripple, el, fadeDuration);
+  }
+
+  function onGestureMove(evt: Event) {
+    const move = evt as PointerEvent;
+    if (move.pointerId !== pointerId) return;
+    if (Math.hypot(move.clientX - origin.clientX, move.clientY - origin.clientY) > slop) cancelPress('pan');
+  }
+
+  // scroll does not bubble, but a capturing document listener sees it for every scroll container
+  function onGestureScroll(evt: Event) {
+    const target = evt.target as Node | null;
+    if (target === document || (target && containsComposed(target, el))) cancelPress('scroll');
+  }
+
+  function fadeRipple(node: HTMLElement, started: WaveEventDetail) {
+    if (rippleDetails.get(node) !== started) return;
+    settleFromEvent(el, node, endEvent);
+    fadeWhenExpanded(el, node, started, startTime, scaledDuration - fadeOffset, fadeDuration);
+  }
+
+  const docListeners: Array<[string, EventListener]> = [
+    ['pointerup', endRipple], ['pointercancel', endRipple],
+    ['pointermove', onGestureMove], ['scroll', onGestureScroll]
+  ];
+  const elListeners: Array<[string, EventListener]> = [['pointerleave', endRipple], ['lostpointercapture', endRipple]];
+  if (pointerId === LEGACY_POINTER_ID) elListeners.push(['touchend', endRipple], ['touchcancel', endRipple]);
+
+  function removeListeners() {
+    for (const [type, fn] of docListeners) document.removeEventListener(type, fn, true);
+    for (const [type, fn] of elListeners) el.removeEventListener(type, fn);
+  }
+
+  for (const [type, fn] of docListeners) document.addEventListener(type, fn, { passive: true, capture: true });
+  for (const [type, fn] of elListeners) el.addEventListener(type, fn, { passive: true });
+
+  function show() {
+    if (cancelled || shown) return;
+    shown = true;
+    const node = createRippleElement(el, geo.x, geo.y, haloFinalScale, color, timings);
+    trackRipple(el, pointerId, node, fadeDuration);
+    mountRipple(el, node);
+    ripple = node;
+    startTime = now();
+    const started = startRippleEvents(el, node, source, geo.x, geo.y, color,
+      { expansionDuration: scaledDuration, fadeDuration, fadeOffset });
+    detail = started;
+    if (ended) fadeRipple(node, started);
+    else watchLongPress(el, node, started);
+
+    let expansionEnded = false;
+
+    function onTransformEnd(evt?: TransitionEvent) {
+      if (evt && evt.propertyName !== 'transform') return;
+      expansionEnded = true;
+      node.removeEventListener('transitionend', onTransformEnd as EventListener);
+    }
+    node.addEventListener('transitionend', onTransformEnd as EventListener);
+
+    requestAnimationFrame(() => {
+      node.classList.add('animating');
+      animateRipple(node, haloFinalScale, scaledDuration);
+      later(el, () => {
+        if (!expansionEnded) {
+          expansionEnded = true;
+          try {
+            node.removeEventListener('transitionend', onTransformEnd as EventListener);
+          } catch (e) { }
+        }
+      }, scaledDuration + 220);
+    });
+  }
+
+  if (delay > 0) later(el, () => schedule(show), delay);
+  else schedule(show);
+  return endRipple;
+}
+
+// Space / Enter on the focused host: the ripple is held until that key comes back up
+function onKeyDown(this: HTMLElement, e: KeyboardEvent) {
+  if (!isRippleKeyPress(this, e)) return;
+  const el = this;
+  const key = e.key;
+  let ripple: HTMLElement | null = null;
+  let detail: WaveEventDetail | null = null;
+  let startTime = 0;
+  let ended = false;
+  let cancelReason: string | undefined;
+
+  const { w, h } = layoutSize(el);
+  const geo = rippleGeometry(el, w / 2, h / 2, w, h, { center: true });
+  const haloFinalScale = geo.scale;
+
+  const timings = readTimingFromCSS(el);
+  const scaledDuration = Math.max(120, Math.round(timings.expansionDuration));
+  const fadeDuration = Math.max(32, Math.round(timings.fadeDuration));
+  const fadeOffset = Math.max(0, Math.round(timings.fadeOffset));
+
+  function endPress(evt: Event) {
+    if (ended) return;
+    if (evt.type === 'keyup' && (evt as KeyboardEvent).key !== key) return;
+    if (evt.type === 'focusout' || evt.type === 'blur') cancelReason = 'blur';
+    ended = true;
+    el.removeEventListener('focusout', endPress);
+    document.removeEventListener('keyup', endPress, true);
+    window.removeEventListener('blur', endPress);
+    if (ripple && detail) fadeKeyRipple(ripple, detail);
+  }
+
+  function fadeKeyRipple(node: HTMLElement, started: WaveEventDetail) {
+    if (rippleDetails.get(node) !== started) return;
+    if (cancelReason) settleRipple(el, node, 'cancel', cancelReason);
+    else settleRipple(el, node, 'release');
+    fadeWhenExpanded(el, node, started, startTime, scaledDuration - fadeOffset, fadeDuration);
+  }
+
+  el.addEventListener('focusout', endPress);
+  document.addEventListener('keyup', endPress, true);
+  window.addEventListener('blur', endPress);
+
+  schedule(() => {
+    const color = resolveRippleColor(el);
+    const node = createRippleElement(
+      el,
+      geo.x,
+      geo.y,
+      haloFinalScale,
+      color,
+      { expansionDuration: scaledDuration, fadeDuration, fadeOffset }
+    );
+    
+    // a new key press replaces the previous keyboard ripple, pointer ripples are left alone
+    trackRipple(el, KEYBOARD_POINTER_ID, node, fadeDuration);
+    mountRipple(el, node);
+    ripple = node;
+    startTime = now();
+    detail = startRippleEvents(el, node, 'keyboard', geo.x, geo.y, color,
+      { expansionDuration: scaledDuration, fadeDuration, fadeOffset });
+    if (ended) fadeKeyRipple(node, detail);
+    
+    requestAnimationFrame(() => {
+      node.classList.add('animating');
+      animateRipple(node, haloFinalScale, scaledDuration);
+    });
+  });
+}
+
+// ============================================
+// PROGRAMMATIC TRIGGER
+// ============================================
+interface TriggerOptions {
+  x?: number;
+  y?: number;
+  color?: string;
+  theme?: string;
+  duration?: number;
+  fadeDuration?: number;
+  hold?: boolean;
+  unbounded?: boolean;
+  center?: boolean;
+  radius?: number;
+  pulse?: boolean;
+}
+
+interface RippleHandle {
+  release(): void;
+  cancel(): void;
+  finished: Promise<void>;
+  readonly animations: RippleAnimations;
+}
+
+function resolveTriggerColor(el: HTMLElement, opts: TriggerOptions): RippleColor {
+  if (opts.color?.trim()) {
+    return { source: 'custom', value: opts.color.trim(), isSystem: false };
+  }
+  if (opts.theme) {
+    const sysColor = SYSTEM_COLORS.get(opts.theme.toLowerCase());
+    if (sysColor) return { source: 'system', value: sysColor, isSystem: true };
+  }
+  return resolveRippleColor(el);
+}
+
+// x / y are local to the element (px from its top-left corner); default is the center.
+function trigger(el: HTMLElement, opts: TriggerOptions = {}, source: RippleSource = 'trigger'): RippleHandle {
+  if (!el.classList.contains(SURFACE_CLASS)) upgradeElement(el);
+
+  const { w, h } = layoutSize(el);
+  const x = typeof opts.x === 'number' ? Math.min(Math.max(opts.x, 0), w) : w / 2;
+  const y = typeof opts.y === 'number' ? Math.min(Math.max(opts.y, 0), h) : h / 2;
+
+  const timings = readTimingFromCSS(el);
+  const scaledDuration = Math.max(120, Math.round(opts.duration ?? timings.expansionDuration));
+  const fadeDuration = Math.max(32, Math.round(opts.fadeDuration ?? timings.fadeDuration));
+  const fadeOffset = Math.max(0, Math.round(timings.fadeOffset));
+
+  // an explicit x / y means "start here" unless center is asked for explicitly
+  const explicitPoint = typeof opts.x === 'number' || typeof opts.y === 'number';
+  const geo = rippleGeometry(el, x, y, w, h, {
+    unbounded: opts.unbounded,
+    center: opts.center ?? (explicitPoint ? false : undefined),
+    radius: opts.radius
+  });
+  const haloFinalScale = geo.scale;
+  const color = resolveTriggerColor(el, opts);
+
+  let ripple: HTMLElement | null = null;
+  let started: WaveEventDetail | null = null;
+  let startTime = 0;
+  let released = !opts.hold;
+  let done = false;
+  let forceEnd: (() => void) | null = null;
+  let resolveFinished: () => void = () => { };
+  const finished = new Promise<void>(resolve => { resolveFinished = resolve; });
+
+  function finish() {
+    if (done) return;
+    done = true;
+    resolveFinished();
+  }
+
+  // false once the node was evicted, cleared or released and may already serve another ripple
+  function live(node: HTMLElement | null): node is HTMLElement {
+    return !!node && !!started && rippleDetails.get(node) === started;
+  }
+
+  function fade() {
+    // already fading when evicted or cleared; that fade ends the handle too
+    if (done || !live(ripple) || forceEnd || ripple.classList.contains('fading')) return;
+    untrackRipple(el, ripple);
+    forceEnd = fadeOutAndRemoveRipple(ripple, el, fadeDuration, finish);
+  }
+
+  function scheduleFade() {
+    if (live(ripple)) settleRipple(el, ripple, 'release');
+    const elapsed = now() - startTime;
+    const desiredStart = Math.max(0, scaledDuration - fadeOffset);
+    later(el, fade, Math.max(0, desiredStart - elapsed));
+  }
+
+  schedule(() => {
+    if (done) return;
+    const node = createRippleElement(el, geo.x, geo.y, haloFinalScale, color,
+      { expansionDuration: scaledDuration, fadeDuration, fadeOffset });
+    ripple = node;
+    trackRipple(el, nextTriggerPointerId--, node, fadeDuration);
+    mountRipple(el, node);
+    started = startRippleEvents(el, node, source, geo.x, geo.y, color,
+      { expansionDuration: scaledDuration, fadeDuration, fadeOffset });
+    rippleEndHooks.set(started, finish);
+    if (opts.pulse && !prefersReducedMotion) {
+      node.classList.add(HOLDING_CLASS);
+      setHoldPulse(node, true);
+    }
+    startTime = now();
+
+    requestAnimationFrame(() => {
+      if (done || !live(node)) return;
+      node.classList.add('animating');
+      animateRipple(node, haloFinalScale, scaledDuration);
+    });
+
+    if (released) scheduleFade();
+  });
+
+  return {
+    release() {
+      if (released || done) return;
+      released = true;
+      if (ripple) scheduleFade();
+    },
+    cancel() {
+      if (done) return;
+      if (!live(ripple)) { finish(); return; }
+      settleRipple(el, ripple, 'cancel', 'api');
+      if (forceEnd) { forceEnd(); return; }
+      untrackRipple(el, ripple);
+      releaseRippleNode(el, ripple);
+      endRippleEvents(el, ripple);
+      finish();
+    },
+    finished,
+    get animations(): RippleAnimations {
+      return (ripple && rippleAnimations.get(ripple)) || {};
+    }
+  };
+}
+
+// ============================================
+// DELEGATE SUPPORT
+// ============================================
+// wave-delegate="selector" picks targets inside the element; wave-for="#id" (or a bare id, or any
+// selector) links targets anywhere in the same document or shadow root. Both may match several.
+type DelegateMap = 'point' | 'proportional' | 'center';
+const reBareId = /^[A-Za-z][\w-]*$/;
+
+function delegateTargets(el: HTMLElement): HTMLElement[] {
+  const out: HTMLElement[] = [];
+  const add = (t: Element | null) => {
+    if (t && t !== el && !out.includes(t as HTMLElement)) out.push(t as HTMLElement);
+  };
+  const inner = el.getAttribute('wave-delegate');
+  if (inner) {
+    try { el.querySelectorAll(inner).forEach(add); } catch (e) { }
+  }
+  const linked = el.getAttribute('wave-for')?.trim();
+  if (linked) {
+    const root = el.getRootNode() as Document | ShadowRoot;
+    if (reBareId.test(linked)) add(root.getElementById(linked));
+    else {
+      try { root.querySelectorAll(linked).forEach(add); } catch (e) { }
+    }
   }
+  return out;
+}
 
-  const timings = readTimingFromCSS(el);
-  const scaledDuration = Math.max(120, Math.round(timings.expansionDuration));
-  const fadeDuration = Math.max(32, Math.round(timings.fadeDuration));
-  const fadeOffset = Math.max(0, Math.round(timings.fadeOffset));
+// Targets are upgraded on their first press; both directions are kept so a target goes back to a
+// plain element once nothing delegates to it any more
+const delegatedTargets: WeakMap<HTMLElement, Set<HTMLElement>> = new WeakMap();
+const delegateOwners: WeakMap<HTMLElement, Set<HTMLElement>> = new WeakMap();
+
+function upgradeDelegateTarget(el: HTMLElement, target: HTMLElement) {
+  let targets = delegatedTargets.get(el);
+  if (!targets) { targets = new Set(); delegatedTargets.set(el, targets); }
+  targets.add(target);
+  let owners = delegateOwners.get(target);
+  if (!owners) { owners = new Set(); delegateOwners.set(target, owners); }
+  owners.add(el);
+  if (!target.classList.contains(SURFACE_CLASS)) upgradeElement(target);
+}
 
-  const radius = maximalExpandedCoverageRadius(p.x, p.y, p.w, p.h);
-  const haloFinalScale = (radius * 2) / RIPPLE_HALO_START_DIAMETER;
-  const color = resolveRippleColor(el);
+// wave-delegate / wave-for changed, or the delegating element left the DOM
+function refreshDelegateTargets(el: HTMLElement, gone = false) {
+  const previous = delegatedTargets.get(el);
+  if (!previous) return;
+  const current = gone ? [] : delegateTargets(el);
+  previous.forEach(target => {
+    if (current.includes(target)) return;
+    previous.delete(target);
+    const owners = delegateOwners.get(target);
+    owners?.delete(el);
+    if (owners?.size || target.hasAttribute('wave') || boundElements.has(target)) return;
+    releaseElement(target);
+  });
+}
+
+function delegateMapMode(el: HTMLElement): DelegateMap {
+  const mode = el.getAttribute('wave-map');
+  return mode === 'proportional' || mode === 'center' ? mode : 'point';
+}
+
+// point: the press position itself (clamped to the target); proportional: the same relative spot
+// of the target as of the delegating element; center: always the middle
+function delegateCoords(source: HTMLElement, target: HTMLElement, clientX: number, clientY: number, mode: DelegateMap) {
+  const frame = localFrame(target);
+  const { w, h } = frame;
+  let { x, y } = clientToLocal(frame, clientX, clientY);
+  if (mode === 'proportional') {
+    const src = localFrame(source);
+    const local = clientToLocal(src, clientX, clientY);
+    x = src.w ? (local.x / src.w) * w : w / 2;
+    y = src.h ? (local.y / src.h) * h : h / 2;
+  } else if (mode === 'center') {
+    x = w / 2;
+    y = h / 2;
+  }
+  return { rect: frame.rect, x: clamp(x, 0, w), y: clamp(y, 0, h), w, h };
+}
 
-  schedule(function () {
-    let set = activeRipples.get(el);
-    if (!set) { set = new Set<HTMLElement>(); activeRipples.set(el, set); }
-    if (set.size >= getMaxRipples()) {
-      const it = set.values().next();
-      if (!it.done && it.value) fadeOutAndRemoveRipple(it.value, el, fadeDuration);
+function findWaveDelegateEl(path: HTMLElement[], event: any): boolean {
+  for (const el of path) {
+    if (el === document.body) break;
+    if (!el.hasAttribute('wave-delegate') && !el.hasAttribute('wave-for')) continue;
+    const own = el.hasAttribute('wave');
+    const targets = delegateTargets(el);
+    if (!targets.length && !own) continue;
+    // a disabled delegate swallows the press instead of passing it to an ancestor
+    if (rippleSuppressed(el)) return true;
+
+    let clientX = 0, clientY = 0;
+    if (event.touches?.[0]) {
+      clientX = event.touches[0].clientX;
+      clientY = event.touches[0].clientY;
+    } else {
+      clientX = event.clientX;
+      clientY = event.clientY;
     }
 
-    const ripple = createRippleElement(el, p.x, p.y, haloFinalScale, color, timings);
-    el.appendChild(ripple);
-    
-    let setNow = activeRipples.get(el);
-    if (!setNow) { setNow = new Set<HTMLElement>(); activeRipples.set(el, setNow); }
-    setNow.add(ripple);
-    
-    let expansionEnded = false;
-    const startTime = now();
+    const mode = delegateMapMode(el);
+    const enders: Array<(evt?: Event) => void> = [];
+    for (const target of targets) {
+      if (rippleSuppressed(target)) continue;
+      upgradeDelegateTarget(el, target);
+      const fakeEvent = {
+        ...event,
+        pointerId: event.pointerId,
+        pointerType: event.pointerType,
+        button: event.button,
+        clientX, clientY,
+        touches: undefined,
+        _ripple_from_delegate: true,
+        _ripple_relative_to: target,
+        _ripple_override_coords: delegateCoords(el, target, clientX, clientY, mode)
+      };
+      const end = onPointerDown.call(target, fakeEvent);
+      if (end) enders.push(end);
+    }
 
-    function onTransformEnd(evt?: TransitionEvent) {
-      if (evt && evt.propertyName !== 'transform') return;
-      expansionEnded = true;
-      ripple.removeEventListener('transitionend', onTransformEnd as EventListener);
-    }
-    ripple.addEventListener('transitionend', onTransformEnd as EventListener);
-
-    function endRipple() {
-      if (!ripple.parentNode) return;
-      const elapsed = now() - startTime;
-      const desiredStart = Math.max(0, scaledDuration - fadeOffset);
-      if (elapsed < desiredStart) {
-        const waitMs = Math.max(0, desiredStart - elapsed);
-        setTimeout(() => {
-          if (!ripple.parentNode) return;
-          fadeOutAndRemoveRipple(ripple, el, fadeDuration);
-          setNow?.delete?.(ripple);
-        }, waitMs + 12);
-      } else {
-        fadeOutAndRemoveRipple(ripple, el, fadeDuration);
-        setNow?.delete?.(ripple);
-      }
-      removeListeners();
+    // wave-delegate / wave-for on a [wave] element: it ripples as well, like any other host
+    if (own) {
+      if (!el.classList.contains(SURFACE_CLASS)) upgradeElement(el);
+      pressState(el);
+      onPointerDown.call(el, event);
     }
-    
-    function removeListeners() {
-      el.removeEventListener('pointerup', endRipple);
-      el.removeEventListener('pointerleave', endRipple);
-      el.removeEventListener('touchend', endRipple);
-      el.removeEventListener('touchcancel', endRipple);
+    if (!enders.length) return true;
+
+    // leaving the delegating element ends the press too, not just leaving a target
+    function forwardEndRipple(evt: Event) {
+      if ((evt as PointerEvent).pointerId !== event.pointerId) return;
+      el.removeEventListener('pointerleave', forwardEndRipple);
+      document.removeEventListener('pointerup', forwardEndRipple, true);
+      document.removeEventListener('pointercancel', forwardEndRipple, true);
+      enders.forEach(end => end(evt));
     }
-    
-    el.addEventListener('pointerup', endRipple, { passive: true, once: true });
-    el.addEventListener('pointerleave', endRipple, { passive: true, once: true });
-    el.addEventListener('touchend', endRipple, { passive: true, once: true });
-    el.addEventListener('touchcancel', endRipple, { passive: true, once: true });
+    el.addEventListener('pointerleave', forwardEndRipple, { passive: true });
+    document.addEventListener('pointerup', forwardEndRipple, { passive: true, capture: true });
+    document.addEventListener('pointercancel', forwardEndRipple, { passive: true, capture: true });
 
-    requestAnimationFrame(() => {
-      ripple.classList.add('animating');
-      animateRipple(ripple, haloFinalScale, scaledDuration);
-      setTimeout(() => {
-        if (!expansionEnded) {
-          expansionEnded = true;
-          try {
-            ripple.removeEventListener('transitionend', onTransformEnd as EventListener);
-          } catch (e) { }
-        }
-      }, scaledDuration + 220);
-    });
-  });
+    return true;
+  }
+  return false;
 }
 
-function onKeyDown(this: HTMLElement, e: KeyboardEvent) {
-  if (![' ', 'Enter'].includes((e as any).key)) return;
-  const el = this;
-  clearRipples(el);
-  
-  schedule(() => {
-    const rect = el.getBoundingClientRect?.() || { width: 0, height: 0 } as DOMRect;
-    const x = rect.width / 2;
-    const y = rect.height / 2;
-    const radius = maximalExpandedCoverageRadius(x, y, rect.width, rect.height);
-    const haloFinalScale = (radius * 2) / RIPPLE_HALO_START_DIAMETER;
+// ============================================
+// STATE LAYERS — hover / focus-visible / pressed
+// ============================================
+// Opt-in per element (wave="state", { stateLayer: true }) or for all via the stateLayers setting
+function hasStateLayer(el: HTMLElement): boolean {
+  // the overlay renderer never adds nodes to the host
+  if (rendererFor(el) === 'canvas') return false;
+  const opt = elData.get(el)?.options?.stateLayer;
+  if (opt !== undefined) return opt;
+  return waveSpec(el).state ?? resolvedSettings.stateLayers;
+}
 
-    const timings = readTimingFromCSS(el);
-    const scaledDuration = Math.max(120, Math.round(timings.expansionDuration));
-    const fadeDuration = Math.max(32, Math.round(timings.fadeDuration));
-    const fadeOffset = Math.max(0, Math.round(timings.fadeOffset));
+function ensureStateLayer(el: HTMLElement): HTMLElement {
+  const d = getElData(el);
+  let layer = d.stateLayer;
+  if (!layer || layer.parentNode !== el) {
+    layer = layer || document.createElement('span');
+    layer.className = STATE_LAYER_CLASS;
+    layer.setAttribute('aria-hidden', 'true');
+    // first child, so it stays underneath the ripples
+    el.insertBefore(layer, el.firstChild);
+    d.stateLayer = layer;
+  }
+  // re-resolved on every state change so theme / scheme switches are picked up
+  const color = accessibleColor(resolveRippleColor(el));
+  const { rgba } = resolveRippleChannels(color.value, color.isSystem, el);
+  layer.style.backgroundColor = rgba ? `rgb(${rgba.r},${rgba.g},${rgba.b})` : 'rgb(128,128,128)';
+  return layer;
+}
 
-    const color = resolveRippleColor(el);
-    const ripple = createRippleElement(
-      el,
-      rect.width / 2,
-      rect.height / 2,
-      haloFinalScale,
-      color,
-      { expansionDuration: scaledDuration, fadeDuration, fadeOffset }
-    );
-    
-    el.appendChild(ripple);
-    let set = activeRipples.get(el);
-    if (!set) { set = new Set<HTMLElement>(); activeRipples.set(el, set); }
-    set.add(ripple);
-    
-    requestAnimationFrame(() => {
-      ripple.classList.add('animating');
-      animateRipple(ripple, haloFinalScale, scaledDuration);
-    });
-    
-    const desiredStart = Math.max(0, scaledDuration - fadeOffset);
-    setTimeout(() => {
-      fadeOutAndRemoveRipple(ripple, el, fadeDuration);
-      set?.delete?.(ripple);
-    }, Math.max(120, desiredStart + 20));
-  });
+function findStateTarget(path: HTMLElement[]): HTMLElement | null {
+  for (const node of path) {
+    if (isWaveHost(node) && hasStateLayer(node)) return node;
+  }
+  return null;
+}
+
+function setState(el: HTMLElement, cls: string, on: boolean) {
+  if (on && rippleSuppressed(el)) on = false;
+  if (on) {
+    if (!el.classList.contains(SURFACE_CLASS)) upgradeElement(el);
+    ensureStateLayer(el);
+  }
+  el.classList.toggle(cls, on);
+}
+
+let hoveredEl: HTMLElement | null = null;
+const pressedEls: Set<HTMLElement> = new Set();
+
+function setHovered(el: HTMLElement | null) {
+  if (el === hoveredEl) return;
+  if (hoveredEl) setState(hoveredEl, HOVERED_CLASS, false);
+  hoveredEl = el;
+  if (el) setState(el, HOVERED_CLASS, true);
+}
+
+function pressState(el: HTMLElement) {
+  if (!hasStateLayer(el)) return;
+  setState(el, PRESSED_CLASS, true);
+  pressedEls.add(el);
+}
+
+function releasePressState() {
+  pressedEls.forEach(el => setState(el, PRESSED_CLASS, false));
+  pressedEls.clear();
+}
+
+function installStateLayerHandlers() {
+  // touch pointers never hover, which keeps a tap from leaving a sticky hover layer behind
+  listen(document, 'pointerover', ((e: PointerEvent) => {
+    if (e.pointerType === 'touch') return;
+    setHovered(findStateTarget(composedElements(e)));
+  }) as EventListener, { passive: true });
+  listen(document, 'pointerout', ((e: PointerEvent) => {
+    if (!e.relatedTarget) setHovered(null);
+  }) as EventListener, { passive: true });
+  listen(document, 'pointerup', releasePressState, { passive: true, capture: true });
+  listen(document, 'pointercancel', releasePressState, { passive: true, capture: true });
+  listen(document, 'keyup', releasePressState, { passive: true, capture: true });
+
+  listen(document, 'focusin', ((e: FocusEvent) => {
+    const el = findStateTarget(composedElements(e));
+    if (!el) return;
+    let visible = true;
+    try { visible = (e.target as Element).matches(':focus-visible'); } catch (err) { }
+    setState(el, FOCUSED_CLASS, visible);
+  }) as EventListener);
+  listen(document, 'focusout', ((e: FocusEvent) => {
+    const el = findStateTarget(composedElements(e));
+    if (el) setState(el, FOCUSED_CLASS, false);
+  }) as EventListener);
+
+  teardowns.push(() => { hoveredEl = null; pressedEls.clear(); });
 }
 
 // ============================================
-// DELEGATE SUPPORT
+// LISTENER REGISTRY
 // ============================================
-function findWaveDelegateEl(originEl: EventTarget | null, event: any): boolean {
-  let el = originEl as HTMLElement | null;
-  while (el && el !== document.body) {
-    if (el.hasAttribute?.('wave-delegate')) {
-      const selector = el.getAttribute('wave-delegate');
-      let delegateTarget: HTMLElement | null = null;
-      try {
-        delegateTarget = selector ? el.querySelector(selector) : null;
-      } catch { }
-      
-      if (delegateTarget?.hasAttribute?.('wave')) {
-        const rect = delegateTarget.getBoundingClientRect();
-        let clientX = 0, clientY = 0;
-        if (event.touches?.[0]) {
-          clientX = event.touches[0].clientX;
-          clientY = event.touches[0].clientY;
-        } else {
-          clientX = event.clientX;
-          clientY = event.clientY;
-        }
-        
-        const fakeEvent = {
-          ...event,
-          clientX, clientY,
-          touches: undefined,
-          _ripple_from_delegate: true,
-          _ripple_relative_to: delegateTarget,
-          _ripple_override_coords: {
-            rect,
-            x: clientX - rect.left,
-            y: clientY - rect.top,
-            w: rect.width,
-            h: rect.height
-          }
-        };
-        
-        (delegateTarget as any)._ripple_delegate_active = true;
-        onPointerDown.call(delegateTarget, fakeEvent);
-
-        function forwardEndRipple() {
-          if (!(delegateTarget as any)._ripple_delegate_active) return;
-          (delegateTarget as any)._ripple_delegate_active = false;
-          try {
-            const set = activeRipples.get(delegateTarget!);
-            if (set?.size) {
-              for (const r of Array.from(set)) {
-                try { fadeOutAndRemoveRipple(r, delegateTarget!); } catch { }
-              }
-            }
-          } catch { }
-          removeListeners();
-        }
-        
-        function removeListeners() {
-          el!.removeEventListener('pointerup', forwardEndRipple);
-          el!.removeEventListener('pointerleave', forwardEndRipple);
-          el!.removeEventListener('touchend', forwardEndRipple);
-          el!.removeEventListener('touchcancel', forwardEndRipple);
-        }
-        
-        el.addEventListener('pointerup', forwardEndRipple, { passive: true, once: true });
-        el.addEventListener('pointerleave', forwardEndRipple, { passive: true, once: true });
-        el.addEventListener('touchend', forwardEndRipple, { passive: true, once: true });
-        el.addEventListener('touchcancel', forwardEndRipple, { passive: true, once: true });
+// Everything installed on document/window goes through listen() so destroy() can undo it.
+const teardowns: Array<() => void> = [];
+
+function listen(
+  target: EventTarget,
+  type: string,
+  fn: EventListener,
+  opts?: AddEventListenerOptions
+) {
+  target.addEventListener(type, fn, opts);
+  teardowns.push(() => target.removeEventListener(type, fn, opts));
+}
 
-        return true;
-      }
-    }
-    el = el.parentElement;
+// Returns the current match and calls onChange on every flip until destroy()
+function watchMedia(query: string, onChange: (matches: boolean) => void): boolean {
+  if (typeof matchMedia === 'undefined') return false;
+  const mql = matchMedia(query);
+  const handler = (e: MediaQueryListEvent) => onChange(e.matches);
+  if (typeof mql.addEventListener === 'function') {
+    mql.addEventListener('change', handler);
+    teardowns.push(() => mql.removeEventListener('change', handler));
+  } else if (typeof (mql as any).addListener === 'function') {
+    (mql as any).addListener(handler);
+    teardowns.push(() => (mql as any).removeListener(handler));
+  }
+  return mql.matches;
+}
+
+function runTeardowns() {
+  while (teardowns.length) {
+    try { teardowns.pop()!(); } catch (e) { }
   }
-  return false;
 }
 
 // ============================================
 // SCROLL DETECTION
 // ============================================
 let isRapidScrollFlag = false;
-(function installTouchHandlers() {
-  if (typeof document === 'undefined') return;
+let rapidScrollTimer: ReturnType<typeof setTimeout> | null = null;
+function installTouchHandlers() {
   let lastScroll = 0;
   let lastX = 0, lastY = 0;
   let hist: Array<{ t: number; x: number; y: number }> = [];
@@ -715,70 +2856,317 @@ let isRapidScrollFlag = false;
     const t = now();
     if (t - lastScroll < 40) {
       isRapidScrollFlag = true;
-      setTimeout(() => { isRapidScrollFlag = false; }, 120);
+      if (rapidScrollTimer) clearTimeout(rapidScrollTimer);
+      rapidScrollTimer = setTimeout(() => { rapidScrollTimer = null; isRapidScrollFlag = false; }, 120);
     }
     lastScroll = t;
   }
   
-  document.addEventListener('touchstart', onTouchStart, { passive: true });
-  document.addEventListener('touchmove', onTouchMove, { passive: true });
-  document.addEventListener('touchend', onTouchEnd, { passive: true });
-  document.addEventListener('touchcancel', onTouchEnd, { passive: true });
-  window.addEventListener('scroll', onScroll, { passive: true });
+  listen(document, 'touchstart', onTouchStart as EventListener, { passive: true });
+  listen(document, 'touchmove', onTouchMove as EventListener, { passive: true });
+  listen(document, 'touchend', onTouchEnd, { passive: true });
+  listen(document, 'touchcancel', onTouchEnd, { passive: true });
+  // capturing on document also sees scrolls of overflow containers, not just the page
+  listen(document, 'scroll', onScroll, { passive: true, capture: true });
+  teardowns.push(() => {
+    if (rapidScrollTimer) clearTimeout(rapidScrollTimer);
+    rapidScrollTimer = null;
+    isRapidScrollFlag = false;
+  });
 
   (onPointerDown as any)._use_isRapidScrollFlag_internal = () => isRapidScrollFlag;
-})();
+}
 
 // ============================================
 // INITIALIZATION
 // ============================================
-function upgradeElement(el?: HTMLElement) {
+function upgradeElement(el?: HTMLElement, options?: ElementOptions) {
   if (!el) return;
+  if (options) {
+    const d = getElData(el);
+    d.options = { ...d.options, ...options };
+    invalidateElement(el);
+    el.classList.toggle(UNBOUNDED_CLASS, resolveRippleVariant(el).unbounded);
+  }
   if (el.classList?.contains(SURFACE_CLASS)) return;
   el.classList.add(SURFACE_CLASS);
   getElData(el);
+  const root = el.getRootNode?.();
+  if (typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot) registerShadowRoot(root);
 }
 
 function upgradeAll() {
   document.querySelectorAll('[wave]').forEach(node => upgradeElement(node as HTMLElement));
 }
 
-function observeDom() {
-  if (typeof IntersectionObserver === 'undefined') {
-    upgradeAll();
-    return;
+// Event path across shadow boundaries, elements only (innermost first)
+function composedElements(e: Event): HTMLElement[] {
+  const path = typeof e.composedPath === 'function' ? e.composedPath() : [];
+  if (path.length) {
+    return path.filter(n => (n as Node).nodeType === 1) as HTMLElement[];
   }
-  const obs = new IntersectionObserver((entries) => {
-    for (const entry of entries) {
-      if (entry.isIntersecting) upgradeElement(entry.target as HTMLElement);
-    }
-  }, { threshold: 0.01 });
-  
-  document.querySelectorAll('[wave]').forEach(node => obs.observe(node));
+  const out: HTMLElement[] = [];
+  let node = e.target as HTMLElement | null;
+  while (node) { out.push(node); node = node.parentElement; }
+  return out;
+}
+
+// contains() that also steps out of shadow roots through their hosts
+function containsComposed(ancestor: Node, node: Node): boolean {
+  let cur: Node | null = node;
+  while (cur) {
+    if (ancestor.contains(cur)) return true;
+    const root = cur.getRootNode();
+    cur = root instanceof ShadowRoot ? root.host : null;
+  }
+  return false;
+}
+
+function isWaveHost(node: HTMLElement): boolean {
+  return node.hasAttribute('wave') || boundElements.has(node);
+}
+
+function findWaveTarget(path: HTMLElement[]): HTMLElement | null {
+  for (const node of path) {
+    if (isWaveHost(node)) return node;
+  }
+  return null;
 }
 
 function globalPointerHandler(e: PointerEvent) {
   if ((e as any).button && (e as any).button !== 0) return;
-  if (findWaveDelegateEl(e.target, e)) return;
+  const path = composedElements(e);
+  if (findWaveDelegateEl(path, e)) return;
   
-  const el = (e.target as Element)?.closest?.('[wave]') as HTMLElement;
-  if (!el || !document.body.contains(el)) return;
+  const el = findWaveTarget(path);
+  // bound elements handle their own presses
+  if (!el || boundElements.has(el) || !el.isConnected || rippleSuppressed(el)) return;
   if (!el.classList.contains(SURFACE_CLASS)) upgradeElement(el);
+  pressState(el);
   onPointerDown.call(el, e);
 }
 
 function globalKeyHandler(e: KeyboardEvent) {
-  const el = (e.target as Element)?.closest?.('[wave]') as HTMLElement;
-  if (!el || !document.body.contains(el)) return;
+  const el = findWaveTarget(composedElements(e));
+  if (!el || boundElements.has(el) || !el.isConnected || rippleSuppressed(el)) return;
+  if (!isRippleKeyPress(el, e)) return;
   if (!el.classList.contains(SURFACE_CLASS)) upgradeElement(el);
+  pressState(el);
   onKeyDown.call(el, e);
 }
 
 function installGlobalHandlers() {
-  if ((installGlobalHandlers as any).done) return;
-  document.addEventListener('pointerdown', globalPointerHandler, { passive: true });
-  document.addEventListener('keydown', globalKeyHandler, { passive: true, capture: true });
-  (installGlobalHandlers as any).done = true;
+  listen(document, 'pointerdown', globalPointerHandler as EventListener, { passive: true });
+  listen(document, 'keydown', globalKeyHandler as EventListener, { passive: true, capture: true });
+}
+
+// ============================================
+// ELEMENT BINDING — per-element listeners for framework adapters
+// ============================================
+// The document delegation only sees [wave]; bound elements listen on themselves instead, so portals and
+// synthetic event systems get ripples from the events the element actually received
+interface BoundElement {
+  options: ElementOptions;
+  pointer: EventListener;
+  key: EventListener;
+}
+
+const boundElements: WeakMap<HTMLElement, BoundElement> = new WeakMap();
+
+function boundPointerHandler(this: HTMLElement, e: PointerEvent) {
+  const el = this;
+  if ((e as any).button && (e as any).button !== 0) return;
+  // only the innermost host ripples, whether it is bound or a [wave] element
+  if (!started || findWaveTarget(composedElements(e)) !== el) return;
+  if (!el.isConnected || rippleSuppressed(el)) return;
+  ensureBound(el);
+  pressState(el);
+  onPointerDown.call(el, e);
+}
+
+function boundKeyHandler(this: HTMLElement, e: KeyboardEvent) {
+  const el = this;
+  if (!started || findWaveTarget(composedElements(e)) !== el) return;
+  if (!el.isConnected || rippleSuppressed(el) || !isRippleKeyPress(el, e)) return;
+  ensureBound(el);
+  pressState(el);
+  onKeyDown.call(el, e);
+}
+
+// Detaching from the DOM releases the element's data; the binding's options come back with the next press
+function ensureBound(el: HTMLElement) {
+  const bound = boundElements.get(el);
+  if (bound && !el.classList.contains(SURFACE_CLASS)) upgradeElement(el, bound.options);
+}
+
+// Adapters bind in child effects / mounted hooks, which run before the app's own init(options) in a parent.
+// Starting on the next microtask lets that init() go first; a later one still replaces these defaults.
+// The implicit start makes no network requests, so it can't undo an offline / CSP setup that comes later.
+let bindInitQueued = false;
+
+function initFromBinding() {
+  if (initialized || bindInitQueued) return;
+  bindInitQueued = true;
+  Promise.resolve().then(() => {
+    bindInitQueued = false;
+    if (initialized) return;
+    init({ autoLoad: false });
+    implicitInit = true;
+  });
+}
+
+// Binding an element again only updates its options
+function bindElement(el: HTMLElement, options: ElementOptions = {}): () => void {
+  initFromBinding();
+  const bound = boundElements.get(el);
+  if (bound) {
+    bound.options = { ...options };
+    upgradeElement(el, bound.options);
+    return () => unbindElement(el);
+  }
+  const pointer = boundPointerHandler.bind(el) as EventListener;
+  const key = boundKeyHandler.bind(el) as EventListener;
+  el.addEventListener('pointerdown', pointer, { passive: true });
+  el.addEventListener('keydown', key);
+  boundElements.set(el, { options: { ...options }, pointer, key });
+  upgradeElement(el, options);
+  return () => unbindElement(el);
+}
+
+function unbindElement(el: HTMLElement) {
+  const bound = boundElements.get(el);
+  if (!bound) return;
+  el.removeEventListener('pointerdown', bound.pointer);
+  el.removeEventListener('keydown', bound.key);
+  boundElements.delete(el);
+  clearRipples(el);
+  releaseElement(el);
+}
+
+// ============================================
+// DOM OBSERVATION
+// ============================================
+const WATCHED_ATTRIBUTES = ['wave', 'data-ripple-color', 'wave-delegate', 'wave-for'];
+const MUTATION_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  attributes: true,
+  attributeFilter: WATCHED_ATTRIBUTES
+};
+let intersectionObserver: IntersectionObserver | null = null;
+let mutationObserver: MutationObserver | null = null;
+
+function trackElement(el: HTMLElement) {
+  if (intersectionObserver) intersectionObserver.observe(el);
+  else upgradeElement(el);
+}
+
+function untrackElement(el: HTMLElement) {
+  intersectionObserver?.unobserve(el);
+  releaseElement(el);
+}
+
+function forEachWaveNode(node: Node, selector: string, fn: (el: HTMLElement) => void) {
+  if (node.nodeType !== 1) return;
+  const el = node as HTMLElement;
+  if (el.classList.contains(RIPPLE_CLASS)) return;
+  if (el.matches(selector)) fn(el);
+  el.querySelectorAll(selector).forEach(n => fn(n as HTMLElement));
+}
+
+function onMutations(records: MutationRecord[]) {
+  for (const record of records) {
+    if (record.type === 'attributes') {
+      const el = record.target as HTMLElement;
+      if (record.attributeName === 'wave-delegate' || record.attributeName === 'wave-for') {
+        refreshDelegateTargets(el);
+      } else if (record.attributeName === 'wave') {
+        invalidateElement(el);
+        if (el.hasAttribute('wave')) trackElement(el);
+        else untrackElement(el);
+      } else {
+        invalidateElement(el);
+      }
+      continue;
+    }
+    record.removedNodes.forEach(node => {
+      // a node that was moved rather than removed is still connected
+      if (node.isConnected) return;
+      forEachWaveNode(node, '[wave-delegate], [wave-for]', el => refreshDelegateTargets(el, true));
+      forEachWaveNode(node, '[wave], .' + SURFACE_CLASS, untrackElement);
+    });
+    record.addedNodes.forEach(node => {
+      if (!node.isConnected) return;
+      forEachWaveNode(node, '[wave]', trackElement);
+    });
+  }
+}
+
+function observeDom() {
+  if (typeof IntersectionObserver === 'undefined') {
+    upgradeAll();
+  } else {
+    const obs = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) upgradeElement(entry.target as HTMLElement);
+      }
+    }, { threshold: 0.01 });
+    intersectionObserver = obs;
+    
+    document.querySelectorAll('[wave]').forEach(node => obs.observe(node));
+  }
+
+  if (typeof MutationObserver !== 'undefined') {
+    const obs = new MutationObserver(onMutations);
+    mutationObserver = obs;
+    obs.observe(document.documentElement, MUTATION_OPTIONS);
+    shadowRoots.forEach(root => obs.observe(root, MUTATION_OPTIONS));
+  }
+}
+
+// ============================================
+// SHADOW DOM
+// ============================================
+const shadowRoots: Set<ShadowRoot> = new Set();
+
+function registerShadowRoot(root: ShadowRoot) {
+  if (shadowRoots.has(root)) return;
+  shadowRoots.add(root);
+  adoptWaveEffectCSS(root);
+  mutationObserver?.observe(root, MUTATION_OPTIONS);
+  root.querySelectorAll('[wave]').forEach(node => trackElement(node as HTMLElement));
+}
+
+function defineWaveSurface() {
+  if (typeof customElements === 'undefined' || customElements.get('wave-surface')) return;
+
+  class WaveSurfaceElement extends HTMLElement {
+    static get observedAttributes() { return ['color', 'theme']; }
+
+    connectedCallback() {
+      this.syncAttributes();
+      upgradeElement(this);
+    }
+
+    disconnectedCallback() {
+      releaseElement(this);
+    }
+
+    attributeChangedCallback() {
+      if (this.isConnected) this.syncAttributes();
+    }
+
+    // <wave-surface color="..." theme="..."> maps onto ElementOptions, leaving the wave attribute to the page
+    private syncAttributes() {
+      if (!this.hasAttribute('wave')) this.setAttribute('wave', '');
+      upgradeElement(this, {
+        color: this.getAttribute('color') || undefined,
+        theme: this.getAttribute('theme') || undefined
+      });
+    }
+  }
+
+  customElements.define('wave-surface', WaveSurfaceElement);
 }
 
 // ============================================
@@ -787,28 +3175,148 @@ function installGlobalHandlers() {
 let waveEffectCSSLoaded = false;
 let waveSettingLoaded = false;
 let waveJsonLoaded = false;
+const injectedNodes: HTMLElement[] = [];
+
+function injectHead(node: HTMLElement) {
+  document.head.appendChild(node);
+  injectedNodes.push(node);
+}
+
+function removeInjected(node: HTMLElement) {
+  const idx = injectedNodes.indexOf(node);
+  if (idx !== -1) injectedNodes.splice(idx, 1);
+  node.parentNode?.removeChild(node);
+}
+
+const WAVE_CSS_URL = 'https://marcufer.github.io/Marcumat.js/assets/wave-effect.min.css';
+const TAP_HIGHLIGHT_CSS = '[wave]{-webkit-tap-highlight-color:transparent!important;tap-highlight-color:transparent!important;}';
+const reWaveEffectCSS = /wave-effect(\.min)?\.css/i;
+let autoLoadResources = true;
+// init({ styles, assetBase, nonce }); styles is the CSS text itself (the bundled build or the ./styles export)
+let bundledStyles = '';
+let assetBase = '';
+let styleNonce = '';
+
+// Explicit nonce first, else the one the page's own scripts carry (readable only through .nonce)
+function cspNonce(): string {
+  if (styleNonce) return styleNonce;
+  const script = document.querySelector('script[nonce]') as HTMLScriptElement | null;
+  return script?.nonce || script?.getAttribute('nonce') || '';
+}
+
+function withNonce<T extends HTMLElement>(node: T): T {
+  const nonce = cspNonce();
+  if (nonce) node.setAttribute('nonce', nonce);
+  return node;
+}
+
+function assetUrl(file: string): string {
+  return assetBase.replace(/\/?$/, '/') + file;
+}
+
+// ---- Constructable stylesheets, with a nonced <style> where adoptedStyleSheets is missing ----
+const styleSheets: Map<string, CSSStyleSheet> = new Map();
+const adoptedSheets: Array<{ root: Document | ShadowRoot; sheet: CSSStyleSheet }> = [];
+let styledRoots: WeakSet<Document | ShadowRoot> = new WeakSet();
+
+function supportsAdoptedSheets(root: Document | ShadowRoot): boolean {
+  return typeof CSSStyleSheet !== 'undefined' && 'replaceSync' in CSSStyleSheet.prototype && 'adoptedStyleSheets' in root;
+}
+
+// Returns the function that takes the styles off again; one sheet per text is shared by every root
+function applyStyleText(text: string, root: Document | ShadowRoot): () => void {
+  if (supportsAdoptedSheets(root)) {
+    try {
+      let sheet = styleSheets.get(text);
+      if (!sheet) {
+        sheet = new CSSStyleSheet();
+        sheet.replaceSync(text);
+        styleSheets.set(text, sheet);
+      }
+      const entry = { root, sheet };
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+      adoptedSheets.push(entry);
+      return () => {
+        const idx = adoptedSheets.indexOf(entry);
+        if (idx === -1) return;
+        adoptedSheets.splice(idx, 1);
+        root.adoptedStyleSheets = root.adoptedStyleSheets.filter(s => s !== sheet);
+      };
+    } catch (e) { }
+  }
+  const style = withNonce(document.createElement('style'));
+  style.textContent = text;
+  if (root === document) injectHead(style);
+  else {
+    root.appendChild(style);
+    injectedNodes.push(style);
+  }
+  return () => removeInjected(style);
+}
+
+function removeAdoptedSheets() {
+  while (adoptedSheets.length) {
+    const { root, sheet } = adoptedSheets.pop()!;
+    root.adoptedStyleSheets = root.adoptedStyleSheets.filter(s => s !== sheet);
+  }
+}
 
 function autoLoadWaveEffectCSS() {
   if (waveEffectCSSLoaded) return;
-  const cssPath = 'https://marcufer.github.io/Marcumat.js/assets/wave-effect.min.css';
-  const links = document.querySelectorAll('link[rel="stylesheet"]');
+  if (bundledStyles) {
+    if (!styledRoots.has(document)) applyStyleText(bundledStyles, document);
+    styledRoots.add(document);
+    waveEffectCSSLoaded = true;
+    return;
+  }
+  if (!autoLoadResources) return;
+  const links = document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]');
   for (const link of links) {
-    if (link.href?.includes(cssPath)) { waveEffectCSSLoaded = true; return; }
+    if (reWaveEffectCSS.test(link.href || '')) { waveEffectCSSLoaded = true; return; }
   }
   
-  if (!document.querySelector(`link[href="${cssPath}"]`)) {
-    const link = document.createElement('link');
-    link.rel = 'stylesheet';
-    link.href = cssPath;
-    link.onload = () => { waveEffectCSSLoaded = true; };
-    link.onerror = () => { waveEffectCSSLoaded = false; };
-    document.head.appendChild(link);
+  const cssPath = assetBase ? assetUrl('wave-effect.min.css') : WAVE_CSS_URL;
+  const link = withNonce(document.createElement('link'));
+  link.rel = 'stylesheet';
+  link.href = cssPath;
+  link.onload = () => { waveEffectCSSLoaded = true; };
+  link.onerror = () => { waveEffectCSSLoaded = false; };
+  injectHead(link);
+}
+
+// Document styles don't cross into shadow trees, so each registered root gets its own sheet or link
+function adoptWaveEffectCSS(root: ShadowRoot) {
+  if (styledRoots.has(root) || root.querySelector('link[data-wave-effect-css]')) return;
+  if (bundledStyles) {
+    applyStyleText(bundledStyles, root);
+    styledRoots.add(root);
+    return;
+  }
+  let href = '';
+  const links = document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]');
+  for (const link of links) {
+    if (reWaveEffectCSS.test(link.href || '')) { href = link.href; break; }
   }
+  if (!href) {
+    if (!autoLoadResources) return;
+    href = assetBase ? assetUrl('wave-effect.min.css') : WAVE_CSS_URL;
+  }
+  const link = withNonce(document.createElement('link'));
+  link.rel = 'stylesheet';
+  link.href = href;
+  link.setAttribute('data-wave-effect-css', '');
+  root.appendChild(link);
+  injectedNodes.push(link);
+}
+
+// With an asset base only that location is tried; otherwise the usual spots at the site root
+function settingPaths(file: string): string[] {
+  return assetBase ? [assetUrl(file)] : [`/${file}`, `/css/${file}`, `/assets/${file}`];
 }
 
 function autoLoadWaveSettingCSS() {
   if (waveSettingLoaded) return;
-  const links = document.querySelectorAll('link[rel="stylesheet"]');
+  const links = document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]');
   for (const link of links) {
     if (/wave-setting(\.min)?\.css/i.test(link.href || '')) {
       waveSettingLoaded = true;
@@ -816,39 +3324,42 @@ function autoLoadWaveSettingCSS() {
     }
   }
   
-  const pathBases = ['/wave-setting.css', '/css/wave-setting.css', '/assets/wave-setting.css'];
+  const pathBases = settingPaths('wave-setting.css');
   function tryNext(idx: number) {
     if (idx >= pathBases.length) return;
     const href = pathBases[idx];
     if (document.querySelector(`link[href="${href}"]`)) return tryNext(idx + 1);
     
-    const link = document.createElement('link');
+    const link = withNonce(document.createElement('link'));
     link.rel = 'stylesheet';
     link.href = href;
     link.onload = () => { waveSettingLoaded = true; };
     link.onerror = () => { tryNext(idx + 1); };
-    document.head.appendChild(link);
+    injectHead(link);
   }
   tryNext(0);
 }
 
-function autoLoadWaveSettingJSON(callback?: (opts: any) => void) {
-  if (waveJsonLoaded) { callback?.({}); return; }
+function autoLoadWaveSettingJSON(callback?: (opts: any, source: string) => void) {
+  if (waveJsonLoaded) return;
   
-  const pathBases = ['/wave-setting.json', '/css/wave-setting.json', '/assets/wave-setting.json'];
+  // a response that arrives after destroy() belongs to a run that is gone
+  const generation = initGeneration;
+  const pathBases = settingPaths('wave-setting.json');
   function tryNext(idx: number) {
+    if (generation !== initGeneration) return;
     if (idx >= pathBases.length) {
       waveJsonLoaded = true;
-      callback?.({});
       return;
     }
     
     fetch(pathBases[idx], { method: 'GET', credentials: 'same-origin' })
       .then(r => r.ok ? r.json() : null)
       .then(json => {
+        if (generation !== initGeneration) return;
         if (json && typeof json === 'object') {
           waveJsonLoaded = true;
-          callback?.(json);
+          callback?.(json, pathBases[idx]);
         } else {
           tryNext(idx + 1);
         }
@@ -858,28 +3369,117 @@ function autoLoadWaveSettingJSON(callback?: (opts: any) => void) {
   tryNext(0);
 }
 
-function initWakeEffect() {
+// ============================================
+// LIFECYCLE
+// ============================================
+interface InitOptions {
+  // false: no network requests at all (no stylesheet link, no wave-setting.css / .json lookups)
+  autoLoad?: boolean;
+  observe?: boolean;
+  settings?: Partial<WaveSettings>;
+  // CSS text applied through adoptedStyleSheets instead of linking wave-effect.min.css
+  styles?: string;
+  // where wave-effect.min.css, wave-setting.css and wave-setting.json are looked up
+  assetBase?: string;
+  // CSP nonce for injected <style> / <link> elements
+  nonce?: string;
+}
+
+let initialized = false;
+let started = false;
+// bumped by destroy(), so async work started by an earlier run can tell it is stale
+let initGeneration = 0;
+// started with defaults by bindElement() rather than by the page
+let implicitInit = false;
+
+function initWakeEffect(options: InitOptions) {
+  if (!initialized || started) return;
+  started = true;
+  try {
+    document.documentElement.classList.add(`wave-${perfLevel()}-performance`);
+  } catch (e) { }
+  autoLoadResources = options.autoLoad !== false;
+  bundledStyles = options.styles || '';
+  assetBase = options.assetBase || '';
+  styleNonce = options.nonce || '';
+  readInlineSettings();
+  resolveSettings();
   autoLoadWaveEffectCSS();
-  autoLoadWaveSettingCSS();
-  autoLoadWaveSettingJSON((opts) => {
-    if (opts?.disableTapHighlight) {
-      const style = document.createElement('style');
-      style.textContent = '[wave]{-webkit-tap-highlight-color:transparent!important;tap-highlight-color:transparent!important;}';
-      document.head.appendChild(style);
-    }
-    upgradeAll();
-  });
+  shadowRoots.forEach(adoptWaveEffectCSS);
+  if (autoLoadResources) {
+    autoLoadWaveSettingCSS();
+    autoLoadWaveSettingJSON((opts, source) => {
+      if (!started) return;
+      settingLayers.file = validateSettings(opts, source);
+      resolveSettings();
+      upgradeAll();
+    });
+  }
   upgradeAll();
-  observeDom();
+  if (options.observe !== false) observeDom();
   installGlobalHandlers();
+  defineWaveSurface();
+  installTouchHandlers();
+  installSchemeWatcher();
+  installAccessibilityWatchers();
+  installFocusRipple();
+  installStateLayerHandlers();
 }
 
-if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+function init(options: InitOptions = {}) {
+  if (typeof document === 'undefined') return;
+  // the page's own init() wins over the defaults an adapter started with
+  if (initialized && implicitInit) destroy();
+  if (initialized) return;
+  initialized = true;
+  if (options.settings) configure(options.settings);
   if (document.readyState === 'loading') {
-    document.addEventListener('DOMContentLoaded', initWakeEffect, { once: true } as AddEventListenerOptions);
+    listen(document, 'DOMContentLoaded', () => initWakeEffect(options), { once: true });
   } else {
-    initWakeEffect();
+    initWakeEffect(options);
+  }
+}
+
+function destroy() {
+  if (!initialized) return;
+  initialized = false;
+  started = false;
+  implicitInit = false;
+  initGeneration++;
+  runTeardowns();
+  disarmClickGuard?.();
+  stopFrameSampling();
+  intersectionObserver?.disconnect();
+  intersectionObserver = null;
+  mutationObserver?.disconnect();
+  mutationObserver = null;
+  if (rafId) cancelAnimationFrame(rafId);
+  rafId = null;
+  q.length = 0;
+  teardownOverlay();
+
+  document.querySelectorAll('.' + SURFACE_CLASS).forEach(node => releaseElement(node as HTMLElement));
+  shadowRoots.forEach(root => {
+    root.querySelectorAll('.' + SURFACE_CLASS).forEach(node => releaseElement(node as HTMLElement));
+  });
+
+  while (injectedNodes.length) {
+    const node = injectedNodes.pop()!;
+    node.parentNode?.removeChild(node);
   }
+  removeAdoptedSheets();
+  styledRoots = new WeakSet();
+  shadowRoots.clear();
+  removeTapHighlight = null;
+  settingLayers.inline = {};
+  settingLayers.file = {};
+  clearSettingVars();
+  waveEffectCSSLoaded = false;
+  waveSettingLoaded = false;
+  waveJsonLoaded = false;
+  try {
+    document.documentElement.classList.remove(`wave-${perfLevel()}-performance`, CANVAS_RENDERER_CLASS);
+  } catch (e) { }
 }
 
 // ============================================
@@ -895,35 +3495,110 @@ const config = {
       fadeOffset: 0
     };
   },
-  setFadeDuration() { },
-  setRippleDuration() { }
+  setFadeDuration(ms: number) { configure({ fadeDuration: ms }); },
+  setRippleDuration(ms: number) { configure({ rippleDuration: ms }); }
 };
 
 const ColorSystem = {
   colors: SYSTEM_COLORS,
   getDefault: getDefaultSystemColor,
   get: (name: string) => SYSTEM_COLORS.get(name.toLowerCase()),
-  add: (name: string, value: string, alpha: number = 0.25) => {
-    SYSTEM_COLORS.set(name.toLowerCase(), {
-      name: name.toLowerCase(),
-      value,
-      alpha,
-      isDefault: false
-    });
+  getScheme: colorSchemeFor,
+  add: (name: string, value: ColorInput, alpha: number = 0.25, dark?: string | ColorVariant) => {
+    const input = typeof value === 'string' && dark ? { value, alpha, dark } : value;
+    SYSTEM_COLORS.set(name.toLowerCase(), toSystemColor(name, input, alpha));
+  },
+  registerPalette: (palette: Record<string, ColorInput>) => {
+    for (const name of Object.keys(palette)) {
+      SYSTEM_COLORS.set(name.toLowerCase(), toSystemColor(name, palette[name]));
+    }
+  },
+  setDefault: (name: string): boolean => {
+    const key = name.toLowerCase();
+    if (!SYSTEM_COLORS.has(key)) return false;
+    configure({ defaultTheme: key });
+    return true;
+  },
+  // 'default' stays as the last-resort fallback and can't be removed
+  remove: (name: string): boolean => {
+    const key = name.toLowerCase();
+    const color = SYSTEM_COLORS.get(key);
+    if (!color || key === 'default') return false;
+    SYSTEM_COLORS.delete(key);
+    for (const layer of [settingLayers.inline, settingLayers.file, settingLayers.runtime]) {
+      if (layer.defaultTheme === key) delete layer.defaultTheme;
+    }
+    if (color.isDefault) markDefaultColor('default');
+    resolveSettings();
+    return true;
   }
 };
 
+// trigger()'s third parameter is internal
+const publicTrigger = (el: HTMLElement, opts?: TriggerOptions): RippleHandle => trigger(el, opts);
+
+function getSettings(): WaveSettings {
+  return { ...resolvedSettings };
+}
+
+// Importing has no side effects; src/auto.ts is the script-tag entry that sets window.WaveEffect and starts
 const WaveEffect = {
+  init,
+  destroy,
+  trigger: publicTrigger,
   upgradeAll,
   upgradeElement,
   clearRipples,
+  getAnimations,
+  registerShadowRoot,
+  bindElement,
+  unbindElement,
   config,
   ColorSystem,
-  settings: {}
+  configure,
+  getPerfLevel,
+  get settings(): WaveSettings {
+    return getSettings();
+  }
 };
 
-if (typeof window !== 'undefined') {
-  (window as any).WaveEffect = WaveEffect;
-}
+export {
+  init,
+  destroy,
+  publicTrigger as trigger,
+  upgradeAll,
+  upgradeElement,
+  clearRipples,
+  getAnimations,
+  registerShadowRoot,
+  bindElement,
+  unbindElement,
+  config,
+  ColorSystem,
+  configure,
+  getSettings,
+  getPerfLevel,
+  computeGradient,
+  buildGradientString,
+  buildSmoothGradient,
+  buildSimpleGradient,
+  parseColor,
+  parseWaveAttr
+};
+
+export type {
+  WaveSettings,
+  PerfLevel,
+  InitOptions,
+  ElementOptions,
+  TriggerOptions,
+  RippleHandle,
+  RippleColor,
+  SystemColor,
+  ColorInput,
+  WaveEventType,
+  WaveEventDetail,
+  WaveSpec
+};
 
 export default WaveEffect;